@@ -0,0 +1,45 @@
+// Runs the agent against the fixture stores with the scripted driver and
+// checks every scenario's expectations. No API keys or network needed.
+//
+//   npm run harness                 all scenarios
+//   npm run harness -- no-search    only the named fixtures
+//
+// Uses Playwright's Chromium; set LOCAL_BROWSER_PATH to use another binary.
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createJiti } from 'jiti';
+import { chromium } from 'playwright';
+
+// Expected scores in scenarios.ts assume the default weights
+delete process.env.SCORING_WEIGHTS;
+
+const root = path.dirname(path.dirname(fileURLToPath(import.meta.url)));
+const jiti = createJiti(import.meta.url, {
+  alias: { '@': path.join(root, 'src') },
+});
+
+const { runScenarios } = await jiti.import('./run.ts');
+
+const browser = await chromium.launch({
+  executablePath: process.env.LOCAL_BROWSER_PATH || undefined,
+});
+
+let failed = 0;
+try {
+  const outcomes = await runScenarios(browser, process.argv.slice(2));
+
+  console.log('');
+  for (const { scenario, result, failures } of outcomes) {
+    const mark = failures.length === 0 ? 'PASS' : 'FAIL';
+    console.log(`${mark} ${scenario.fixture} (score ${result.score}, drop-off ${result.metrics.drop_off_step ?? 'none'})`);
+    for (const failure of failures) {
+      console.log(`     ${failure}`);
+    }
+    if (failures.length > 0) failed++;
+  }
+  console.log(`\n${outcomes.length - failed}/${outcomes.length} scenarios passed`);
+} finally {
+  await browser.close();
+}
+
+process.exitCode = failed > 0 ? 1 : 0;
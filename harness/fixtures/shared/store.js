@@ -0,0 +1,76 @@
+// Behaviour shared by every fixture store: a session-scoped cart, variant
+// selection, add-to-cart validation, dismissable popups and a checkout page
+// that reveals the payment step.
+//
+// Elements are tagged with data-agent attributes so the scripted agent in
+// harness/scripted-stagehand.ts can find them without an LLM.
+(function () {
+  var CART_KEY = 'fixture-cart';
+
+  function cartCount() {
+    return Number(sessionStorage.getItem(CART_KEY) || '0');
+  }
+
+  function renderCart() {
+    document.querySelectorAll('[data-agent="cart-count"]').forEach(function (badge) {
+      badge.textContent = String(cartCount());
+    });
+  }
+
+  function show(el, text) {
+    if (!el) return;
+    if (text) el.textContent = text;
+    el.hidden = false;
+  }
+
+  document.addEventListener('DOMContentLoaded', function () {
+    renderCart();
+
+    document.querySelectorAll('[data-agent="variant"]').forEach(function (button) {
+      button.addEventListener('click', function () {
+        document.querySelectorAll('[data-agent="variant"]').forEach(function (b) {
+          b.removeAttribute('aria-pressed');
+        });
+        button.setAttribute('aria-pressed', 'true');
+        var error = document.querySelector('[data-agent="error"]');
+        if (error) error.hidden = true;
+      });
+    });
+
+    var addToCart = document.querySelector('[data-agent="add-to-cart"]');
+    if (addToCart) {
+      addToCart.addEventListener('click', function () {
+        var needsVariant = document.querySelector('[data-agent="variant"]') &&
+          !document.querySelector('[data-agent="variant"][aria-pressed="true"]');
+        if (needsVariant) {
+          show(document.querySelector('[data-agent="error"]'), 'Please select a size before adding to cart');
+          return;
+        }
+        sessionStorage.setItem(CART_KEY, String(cartCount() + 1));
+        renderCart();
+        show(document.querySelector('[data-agent="toast"]'));
+      });
+    }
+
+    document.querySelectorAll('[data-agent="popup-close"]').forEach(function (button) {
+      button.addEventListener('click', function () {
+        button.closest('[data-agent="popup"]').remove();
+      });
+    });
+
+    var guest = document.querySelector('[data-agent="guest"]');
+    if (guest) {
+      guest.addEventListener('click', function () {
+        show(document.querySelector('[data-agent="checkout-form"]'));
+        guest.closest('section').hidden = true;
+      });
+    }
+
+    var continueButton = document.querySelector('[data-agent="continue"]');
+    if (continueButton) {
+      continueButton.addEventListener('click', function () {
+        show(document.querySelector('[data-agent="payment"]'));
+      });
+    }
+  });
+})();
@@ -0,0 +1,88 @@
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { Browser } from 'playwright';
+import { AnalysisResult, runAnalysis } from '@/lib/agent';
+import { Scenario, SCENARIOS } from './scenarios';
+import { scriptedSession } from './scripted-stagehand';
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+export interface ScenarioOutcome {
+  scenario: Scenario;
+  result: AnalysisResult;
+  // Empty when the run matched every expectation
+  failures: string[];
+}
+
+export function fixtureUrl(fixture: string): string {
+  return pathToFileURL(path.join(FIXTURES_DIR, fixture, 'index.html')).href;
+}
+
+export async function runScenario(scenario: Scenario, browser: Browser): Promise<ScenarioOutcome> {
+  const orderRequests: string[] = [];
+  const result = await runAnalysis(fixtureUrl(scenario.fixture), `harness-${scenario.fixture}`, {
+    openSession: scriptedSession(browser, request => orderRequests.push(request)),
+    // Scenarios check findings, not pixels; leave no artifacts behind
+    artifacts: null,
+    // axe findings follow the fixture markup, not the funnel under test, so
+    // only scenarios about them scan
+    accessibility: scenario.checks?.accessibility ?? false,
+    // Timing findings would differ from run to run; scenarios about them use
+    // fixtures far past the thresholds
+    performance: scenario.checks?.performance ?? false,
+  });
+  const failures = [
+    ...checkExpectations(scenario, result),
+    ...orderRequests.map(request => `order request left the page: ${request}`),
+  ];
+  return { scenario, result, failures };
+}
+
+export async function runScenarios(browser: Browser, only?: string[]): Promise<ScenarioOutcome[]> {
+  const scenarios = only?.length ? SCENARIOS.filter(s => only.includes(s.fixture)) : SCENARIOS;
+  const outcomes: ScenarioOutcome[] = [];
+  // One at a time: parallel runs would compete for the browser and make
+  // page waits and timing metrics noisier
+  for (const scenario of scenarios) {
+    outcomes.push(await runScenario(scenario, browser));
+  }
+  return outcomes;
+}
+
+function checkExpectations(scenario: Scenario, result: AnalysisResult): string[] {
+  const { expected } = scenario;
+  const failures: string[] = [];
+
+  if (result.status !== expected.status) {
+    failures.push(`status: expected ${expected.status}, got ${result.status}`);
+  }
+  if (result.score !== expected.score) {
+    failures.push(`score: expected ${expected.score}, got ${result.score}`);
+  }
+
+  for (const [key, value] of Object.entries(expected.metrics)) {
+    const actual = result.metrics[key as keyof typeof result.metrics];
+    if (actual !== value) {
+      failures.push(`metrics.${key}: expected ${JSON.stringify(value)}, got ${JSON.stringify(actual)}`);
+    }
+  }
+
+  const found = new Set(result.findings.map(f => f.id));
+  const missing = expected.findings.filter(id => !found.has(id));
+  const unexpected = [...found].filter(id => !expected.findings.includes(id));
+  if (missing.length > 0) {
+    failures.push(`missing findings: ${missing.join(', ')}`);
+  }
+  if (unexpected.length > 0) {
+    failures.push(`unexpected findings: ${unexpected.join(', ')}`);
+  }
+
+  const actions = result.timeline.map(event => event.action);
+  for (const action of expected.timeline ?? []) {
+    if (!actions.includes(action)) {
+      failures.push(`timeline is missing "${action}"`);
+    }
+  }
+
+  return failures;
+}
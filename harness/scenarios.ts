@@ -0,0 +1,150 @@
+import type { AnalysisResult, RunMetrics } from '@/lib/agent';
+
+// What a run against a fixture store must produce. Findings are compared as
+// a set of ids: a finding appearing or disappearing is a behaviour change.
+export interface Scenario {
+  // Directory under harness/fixtures
+  fixture: string;
+  description: string;
+  expected: {
+    status: AnalysisResult['status'];
+    score: number;
+    // time_to_add_to_cart_seconds depends on timing, so it is never checked
+    metrics: Partial<Omit<RunMetrics, 'time_to_add_to_cart_seconds'>>;
+    findings: string[];
+    // Timeline actions that must appear, in any order
+    timeline?: string[];
+  };
+  // Checks the harness turns off by default, see run.ts
+  checks?: {
+    accessibility?: boolean;
+    performance?: boolean;
+  };
+}
+
+const POSITIVE_FUNNEL = ['successful-add-to-cart', 'fast-add-to-cart', 'successful-checkout-reach', 'successful-form-fill'];
+
+const FULL_FUNNEL = {
+  add_to_cart_success: true,
+  checkout_reached: true,
+  checkout_form_filled: true,
+  drop_off_step: null,
+};
+
+export const SCENARIOS: Scenario[] = [
+  {
+    fixture: 'happy-path',
+    description: 'Products on the homepage, guest checkout, nothing in the way',
+    expected: {
+      status: 'completed',
+      score: 100,
+      metrics: FULL_FUNNEL,
+      findings: POSITIVE_FUNNEL,
+    },
+  },
+  {
+    fixture: 'variant-required',
+    description: 'Add to cart is rejected until a size is picked',
+    expected: {
+      status: 'completed',
+      score: 100,
+      metrics: FULL_FUNNEL,
+      findings: POSITIVE_FUNNEL,
+      timeline: ['Detected size/variant selection required', 'Added product to cart'],
+    },
+  },
+  {
+    // The agent cannot tell that none of its form fills landed, so the form
+    // still counts as filled; only the checkout review notices the login wall
+    fixture: 'login-only-checkout',
+    description: 'Checkout offers a sign-in form and no guest option',
+    expected: {
+      status: 'completed',
+      score: 92,
+      metrics: FULL_FUNNEL,
+      findings: [...POSITIVE_FUNNEL, 'checkout-no-guest'],
+    },
+  },
+  {
+    fixture: 'out-of-stock',
+    description: 'The only product is sold out and its button is disabled',
+    expected: {
+      status: 'completed',
+      score: 32,
+      metrics: {
+        add_to_cart_success: false,
+        checkout_reached: false,
+        checkout_form_filled: false,
+        drop_off_step: 'add_to_cart',
+      },
+      findings: ['add-to-cart-out-of-stock'],
+    },
+  },
+  {
+    // The popup is closed before the homepage review, which no longer sees it
+    fixture: 'intrusive-popup',
+    description: 'A newsletter overlay covers the homepage until the agent closes it',
+    expected: {
+      status: 'completed',
+      score: 92,
+      metrics: FULL_FUNNEL,
+      findings: [...POSITIVE_FUNNEL, 'popup-friction'],
+      timeline: ['Dismissed newsletter popup'],
+    },
+  },
+  {
+    // The guard stops the click, so the form is never posted; run.ts fails
+    // the scenario if the order request gets out anyway
+    fixture: 'order-button',
+    description: 'One-page checkout where "Continue to payment" is the button that posts the order',
+    expected: {
+      status: 'completed',
+      score: 100,
+      metrics: FULL_FUNNEL,
+      findings: POSITIVE_FUNNEL,
+      timeline: ['Blocked order submission: "place order"', 'Analyzed checkout page for UX issues'],
+    },
+  },
+  {
+    // Three critical and two serious violations cost 61 points uncapped
+    fixture: 'inaccessible',
+    description: 'Homepage with known WCAG violations, scanned with axe',
+    checks: { accessibility: true },
+    expected: {
+      status: 'completed',
+      score: 85,
+      metrics: FULL_FUNNEL,
+      findings: [
+        ...POSITIVE_FUNNEL,
+        'a11y-html-has-lang',
+        'a11y-image-alt',
+        'a11y-color-contrast',
+        'a11y-label',
+        'a11y-button-name',
+      ],
+      timeline: ['Scanned homepage for accessibility issues'],
+    },
+  },
+  {
+    // Two poor metrics cost 16 points uncapped
+    fixture: 'slow-homepage',
+    description: 'Homepage with a 6 MB image and a second of blocking script',
+    checks: { performance: true },
+    expected: {
+      status: 'completed',
+      score: 90,
+      metrics: FULL_FUNNEL,
+      findings: [...POSITIVE_FUNNEL, 'perf-transfer', 'perf-tbt'],
+    },
+  },
+  {
+    fixture: 'no-search',
+    description: 'Same store as happy-path without a search bar',
+    expected: {
+      status: 'completed',
+      score: 92,
+      metrics: FULL_FUNNEL,
+      findings: [...POSITIVE_FUNNEL, 'homepage-no-search'],
+    },
+  },
+];
@@ -0,0 +1,228 @@
+import type { Browser, Page } from 'playwright';
+import type { z } from 'zod';
+import type { SessionFactory } from '@/lib/browser';
+import type { AgentDriver } from '@/lib/pipeline';
+
+// Stands in for Stagehand's LLM when running against the fixture stores.
+// Every instruction the funnel steps send is matched against a fixed script:
+// act() clicks or fills the elements tagged with data-agent attributes, and
+// extract() answers from the page's DOM or from the scripted answers each
+// fixture page embeds in <script id="agent-answers">. Answers are parsed with
+// the step's schema, as Stagehand does, so a fixture that drifts from a
+// schema fails loudly.
+//
+// An instruction the script does not know throws, so a changed prompt shows up
+// as a harness failure instead of a silently different run.
+
+interface ActRule {
+  match: RegExp;
+  // Resolves to false when the element the instruction targets is not there
+  perform: (page: Page) => Promise<boolean>;
+}
+
+interface ExtractRule {
+  match: RegExp;
+  answer: (page: Page) => Promise<unknown>;
+}
+
+const ACTION_TIMEOUT_MS = 1000;
+
+async function click(page: Page, hook: string): Promise<boolean> {
+  try {
+    await page.locator(`[data-agent="${hook}"]`).first().click({ timeout: ACTION_TIMEOUT_MS });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const FIELD_VALUES: Record<string, string> = {
+  email: 'test@example.com',
+  tel: '5551234567',
+  text: 'Test',
+};
+
+async function fill(page: Page, group: string): Promise<boolean> {
+  const fields = await page.locator(`[data-agent-field="${group}"]:visible`).all();
+  for (const field of fields) {
+    const type = (await field.getAttribute('type')) ?? 'text';
+    await field.fill(FIELD_VALUES[type] ?? FIELD_VALUES.text, { timeout: ACTION_TIMEOUT_MS });
+  }
+  return fields.length > 0;
+}
+
+async function isVisible(page: Page, hook: string): Promise<boolean> {
+  return page.locator(`[data-agent="${hook}"]:visible`).count().then(count => count > 0);
+}
+
+async function visibleText(page: Page, hook: string): Promise<string | null> {
+  const element = page.locator(`[data-agent="${hook}"]:visible`).first();
+  return (await element.count()) > 0 ? (await element.innerText()).trim() : null;
+}
+
+async function scriptedAnswer(page: Page, key: string): Promise<unknown> {
+  const answers = await page.evaluate(() => {
+    const script = document.getElementById('agent-answers');
+    return script ? JSON.parse(script.textContent || '{}') as Record<string, unknown> : {};
+  });
+  if (!answers[key]) {
+    throw new Error(`Fixture page ${page.url()} has no scripted "${key}" answer`);
+  }
+  return answers[key];
+}
+
+const ACT_RULES: ActRule[] = [
+  { match: /^Navigate to the products\/shop section/, perform: page => click(page, 'nav-products') },
+  { match: /^A dropdown menu should be open/, perform: page => click(page, 'nav-products') },
+  { match: /^Find and click on (a specific PRODUCT|any product card)/, perform: page => click(page, 'product') },
+  // Like a model that overlooks the size buttons: goes straight for the
+  // button, so variant-required stores exercise the retry path
+  { match: /^On this product page/, perform: page => click(page, 'add-to-cart') },
+  { match: /^There is an error saying you need to select a size/, perform: page => click(page, 'variant') },
+  { match: /^Now click the "Add to Cart"/, perform: page => click(page, 'add-to-cart') },
+  {
+    match: /^The size selection might be a dropdown menu/,
+    perform: async page => (await click(page, 'variant')) && click(page, 'add-to-cart'),
+  },
+  { match: /^Look for and click the cart icon/, perform: page => click(page, 'cart-link') },
+  { match: /^Click the "Checkout"/, perform: page => click(page, 'checkout') },
+  { match: /^If there is a guest checkout option/, perform: page => click(page, 'guest') },
+  { match: /^Fill in contact information/, perform: page => fill(page, 'contact') },
+  { match: /^Fill in name fields/, perform: page => fill(page, 'name') },
+  { match: /^Fill in address fields/, perform: page => fill(page, 'address') },
+  { match: /^Click the "Save"/, perform: page => click(page, 'modal-save') },
+  { match: /^If there are shipping method options/, perform: page => click(page, 'shipping') },
+  { match: /^Look for a "Continue to payment"/, perform: page => click(page, 'continue') },
+];
+
+const EXTRACT_RULES: ExtractRule[] = [
+  { match: /^Analyze this homepage/, answer: page => scriptedAnswer(page, 'homepage') },
+  { match: /^Analyze this product page/, answer: page => scriptedAnswer(page, 'product') },
+  { match: /^Analyze the add-to-cart experience/, answer: page => scriptedAnswer(page, 'cart') },
+  { match: /^Analyze this checkout page/, answer: page => scriptedAnswer(page, 'checkout') },
+  {
+    match: /^Look at the page\. Are there any products with PRICES/,
+    answer: async page => ({ productsWithPricesVisible: await isVisible(page, 'product') }),
+  },
+  {
+    match: /^Is this a product detail page/,
+    answer: async page => ({ isProductPage: await isVisible(page, 'add-to-cart') }),
+  },
+  {
+    match: /^Is there (any|still an) error message/,
+    answer: async page => {
+      const errorMessage = (await visibleText(page, 'error')) ?? '';
+      const selected = await page.locator('[data-agent="variant"][aria-pressed="true"]').count();
+      const variantMissing = (await isVisible(page, 'variant')) && selected === 0;
+      return { errorMessage, requiresVariantSelection: errorMessage !== '' && variantMissing };
+    },
+  },
+  {
+    match: /^Check the shopping cart icon/,
+    answer: async page => ({
+      itemCount: Number(await visibleText(page, 'cart-count')),
+      successMessageVisible: await isVisible(page, 'toast'),
+    }),
+  },
+  {
+    // Fixtures script the reason when a failure is expected on that page
+    match: /^Why couldn't the item be added to cart/,
+    answer: async page => scriptedAnswer(page, 'addToCartFailure').catch(async () => ({
+      reason: 'other',
+      message: (await visibleText(page, 'error')) ?? '',
+    })),
+  },
+  {
+    match: /^What page are we on/,
+    answer: async page => ({
+      onCartPage: (await page.locator('body').getAttribute('data-page')) === 'cart',
+      checkoutButtonVisible: await isVisible(page, 'checkout'),
+    }),
+  },
+  {
+    match: /^Is there a login form or guest checkout option/,
+    answer: async page => ({
+      loginFormVisible: (await page.locator('form.login:visible').count()) > 0,
+      guestOptionVisible: await isVisible(page, 'guest'),
+    }),
+  },
+  {
+    match: /^Is there a modal or popup open for address entry/,
+    answer: async page => ({ addressModalOpen: await isVisible(page, 'modal-save') }),
+  },
+];
+
+export interface ScriptedCall {
+  method: 'act' | 'extract';
+  instruction: string;
+  result: unknown;
+}
+
+export class ScriptedStagehand implements AgentDriver {
+  // Every call in order, for debugging a scenario that drifts
+  readonly calls: ScriptedCall[] = [];
+
+  constructor(private page: Page) {}
+
+  async act(instruction: string): Promise<unknown> {
+    const rule = findRule(ACT_RULES, instruction);
+    const success = await rule.perform(this.page);
+    const result = { success, message: success ? 'Scripted action performed' : 'Target element not found' };
+    this.calls.push({ method: 'act', instruction, result });
+    return result;
+  }
+
+  async extract<T extends z.ZodTypeAny>(instruction: string, schema: T): Promise<z.infer<T>> {
+    const rule = findRule(EXTRACT_RULES, instruction);
+    const result = schema.parse(await rule.answer(this.page));
+    this.calls.push({ method: 'extract', instruction, result });
+    return result;
+  }
+}
+
+function findRule<T extends { match: RegExp }>(rules: T[], instruction: string): T {
+  const rule = rules.find(candidate => candidate.match.test(instruction.trim()));
+  if (!rule) {
+    throw new Error(`No scripted response for: ${instruction.trim().slice(0, 80)}`);
+  }
+  return rule;
+}
+
+// Where fixture stores send orders. Nothing may ever reach it: the payment
+// guard has to stop every order before it leaves the page.
+export const ORDER_ORIGIN = 'https://orders.shopai.test';
+
+// Made-up assets of the size their file name says, for fixtures that need a
+// heavy page: https://assets.shopai.test/6000000.jpg is 6,000,000 bytes
+export const ASSET_ORIGIN = 'https://assets.shopai.test';
+
+// Opens each run in a fresh context of an already launched browser, so
+// scenarios do not share cookies or the fixture cart. onOrderRequest sees
+// every request that reached ORDER_ORIGIN, as "METHOD url".
+export function scriptedSession(browser: Browser, onOrderRequest: (request: string) => void): SessionFactory {
+  return async (_env, device) => {
+    const { emulation } = device;
+    const context = await browser.newContext(emulation ? {
+      viewport: { width: emulation.width, height: emulation.height },
+      deviceScaleFactor: emulation.deviceScaleFactor,
+      userAgent: emulation.userAgent,
+      isMobile: device.isMobile,
+      hasTouch: device.isMobile,
+    } : {});
+    await context.route(`${ORDER_ORIGIN}/**`, (route) => {
+      onOrderRequest(`${route.request().method()} ${route.request().url()}`);
+      return route.fulfill({ contentType: 'text/html', body: '<h1>Thank you for your order</h1>' });
+    });
+    await context.route(`${ASSET_ORIGIN}/**`, (route) => {
+      const size = /\/(\d+)\.\w+$/.exec(new URL(route.request().url()).pathname)?.[1];
+      return route.fulfill({ contentType: 'application/octet-stream', body: Buffer.alloc(Number(size ?? 0)) });
+    });
+    const page = await context.newPage();
+    return {
+      stagehand: new ScriptedStagehand(page),
+      page,
+      sessionUrl: null,
+      close: () => context.close(),
+    };
+  };
+}
@@ -1,7 +1,7 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  serverExternalPackages: ['@browserbasehq/stagehand'],
+  serverExternalPackages: ['@browserbasehq/stagehand', 'axe-core'],
 };
 
 export default nextConfig;
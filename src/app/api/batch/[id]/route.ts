@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatchRepository } from '@/lib/batch-repository';
+import { BATCH_SORT_KEYS, batchCsv, batchRuns, getBatchRunner, isBatchSortKey, sortBatchRows, summarizeBatch } from '@/lib/batches';
+
+// Batch progress and the aggregate table. ?sort=<column>&order=asc|desc
+// sorts the rows; ?format=csv downloads them.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: batchId } = await params;
+  const query = request.nextUrl.searchParams;
+
+  const sort = query.get('sort');
+  if (sort && !isBatchSortKey(sort)) {
+    return NextResponse.json(
+      { error: `Invalid sort, expected one of: ${BATCH_SORT_KEYS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+  const order = query.get('order') === 'desc' ? 'desc' : 'asc';
+
+  const batch = await getBatchRepository().get(batchId);
+  if (!batch) {
+    return NextResponse.json(
+      { error: 'Batch not found' },
+      { status: 404 }
+    );
+  }
+
+  const summary = summarizeBatch(batch, await batchRuns(batch), getBatchRunner().isActive(batchId));
+  if (sort && isBatchSortKey(sort)) {
+    summary.rows = sortBatchRows(summary.rows, sort, order);
+  }
+
+  if (query.get('format') === 'csv') {
+    return new Response(batchCsv(summary.rows), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="batch-${batchId}.csv"`,
+      },
+    });
+  }
+
+  return NextResponse.json(summary);
+}
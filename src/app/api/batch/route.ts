@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBatchRepository } from '@/lib/batch-repository';
+import {
+  batchRuns,
+  csvStoreEntries,
+  getBatchConcurrency,
+  getBatchRunner,
+  jsonStoreEntries,
+  MAX_BATCH_CONCURRENCY,
+  MAX_BATCH_SIZE,
+  parseStoreList,
+  startBatch,
+  summarizeBatch,
+} from '@/lib/batches';
+import { runSettings, runSettingsError } from '@/lib/run-launcher';
+
+// Starts a batch. The store list is either a CSV upload (Content-Type
+// text/csv, run settings as query parameters) or JSON: an array of URLs, or
+// { "store_urls": [...] } with the run settings alongside.
+export async function POST(request: NextRequest) {
+  const text = await request.text();
+  const isCsv = /text\/(csv|plain)/.test(request.headers.get('content-type') ?? '');
+
+  const settings: Record<string, unknown> = Object.fromEntries(request.nextUrl.searchParams);
+  if (typeof settings.skip_steps === 'string') {
+    settings.skip_steps = settings.skip_steps.split(',');
+  }
+
+  let entries: string[];
+  try {
+    if (isCsv) {
+      entries = csvStoreEntries(text);
+    } else {
+      const body = JSON.parse(text);
+      entries = jsonStoreEntries(body);
+      if (!Array.isArray(body)) {
+        Object.assign(settings, body);
+        delete settings.store_urls;
+      }
+    }
+  } catch (error) {
+    return NextResponse.json(
+      { error: `Could not read the store list: ${error instanceof Error ? error.message : 'Unknown error'}` },
+      { status: 400 }
+    );
+  }
+
+  const list = parseStoreList(entries);
+  if (list.urls.length === 0) {
+    return NextResponse.json(
+      { error: 'The store list has no valid URLs' },
+      { status: 400 }
+    );
+  }
+
+  if (list.urls.length > MAX_BATCH_SIZE) {
+    return NextResponse.json(
+      { error: `A batch can hold at most ${MAX_BATCH_SIZE} stores, got ${list.urls.length}` },
+      { status: 400 }
+    );
+  }
+
+  const limit = Number(settings.concurrency ?? getBatchConcurrency());
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_BATCH_CONCURRENCY) {
+    return NextResponse.json(
+      { error: `concurrency must be between 1 and ${MAX_BATCH_CONCURRENCY}` },
+      { status: 400 }
+    );
+  }
+
+  const settingsError = runSettingsError(settings);
+  if (settingsError) {
+    return NextResponse.json(
+      { error: settingsError },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const batch = await startBatch(list.urls, runSettings(settings), limit);
+
+    return NextResponse.json({
+      batch_id: batch.batch_id,
+      total: batch.items.length,
+      concurrency: batch.concurrency,
+      // Entries that were skipped because they are not URLs
+      invalid: list.invalid,
+      status: 'running',
+    });
+  } catch (error) {
+    console.error('Error starting batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to start batch' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  try {
+    const runner = getBatchRunner();
+    const batches = await getBatchRepository().list();
+
+    const summaries = await Promise.all(batches.map(async (batch) => {
+      const summary = summarizeBatch(batch, await batchRuns(batch), runner.isActive(batch.batch_id));
+      // The list only shows progress; rows come with the single batch
+      return { ...summary, rows: undefined };
+    }));
+
+    return NextResponse.json({ batches: summaries });
+  } catch (error) {
+    console.error('Error listing batches:', error);
+    return NextResponse.json(
+      { error: 'Failed to list batches' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { compareRuns } from '@/lib/compare';
+import { getRunRepository, normalizeStoreUrl } from '@/lib/run-repository';
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const idA = params.get('a');
+  const idB = params.get('b');
+
+  if (!idA || !idB) {
+    return NextResponse.json(
+      { error: 'Both run IDs (a and b) are required' },
+      { status: 400 }
+    );
+  }
+
+  const runs = getRunRepository();
+  const [runA, runB] = await Promise.all([runs.get(idA), runs.get(idB)]);
+
+  if (!runA || !runB) {
+    return NextResponse.json(
+      { error: `Run not found: ${!runA ? idA : idB}` },
+      { status: 404 }
+    );
+  }
+
+  if (!runA.result || !runB.result) {
+    return NextResponse.json(
+      { error: 'Both runs must be finished before they can be compared' },
+      { status: 409 }
+    );
+  }
+
+  if (normalizeStoreUrl(runA.store_url) !== normalizeStoreUrl(runB.store_url)) {
+    return NextResponse.json(
+      { error: 'Runs must be for the same store_url' },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(compareRuns(runA.result, runB.result));
+}
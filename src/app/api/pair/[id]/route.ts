@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { compareDevices } from '@/lib/compare';
+import { getRunRepository, isFinished, RunRecord } from '@/lib/run-repository';
+
+function member(record: RunRecord) {
+  return {
+    run_id: record.run_id,
+    device: record.device ?? null,
+    status: record.status,
+  };
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: pairId } = await params;
+
+  const { runs } = await getRunRepository().list({ pair_id: pairId });
+  const desktop = runs.find(record => record.device === 'desktop');
+  const mobile = runs.find(record => record.device !== 'desktop');
+
+  if (!desktop || !mobile) {
+    return NextResponse.json(
+      { error: 'Pair not found' },
+      { status: 404 }
+    );
+  }
+
+  // Available once both runs have finished
+  const comparison = isFinished(desktop.status) && isFinished(mobile.status) && desktop.result && mobile.result
+    ? compareDevices(desktop.result, mobile.result)
+    : null;
+
+  return NextResponse.json({
+    pair_id: pairId,
+    store_url: desktop.store_url,
+    status: comparison ? 'finished' : 'running',
+    runs: {
+      desktop: member(desktop),
+      mobile: member(mobile),
+    },
+    comparison,
+  });
+}
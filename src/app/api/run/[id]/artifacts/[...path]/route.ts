@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { artifactContentType, getArtifactStore } from '@/lib/artifact-store';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; path: string[] }> }
+) {
+  const { id: runId, path } = await params;
+  const name = path.join('/');
+
+  const data = await getArtifactStore().get(runId, name);
+
+  if (!data) {
+    return NextResponse.json(
+      { error: 'Artifact not found' },
+      { status: 404 }
+    );
+  }
+
+  return new Response(new Uint8Array(data), {
+    headers: {
+      'Content-Type': artifactContentType(name),
+      // Artifacts are never rewritten once a run has stored them
+      'Cache-Control': 'private, max-age=31536000, immutable',
+    },
+  });
+}
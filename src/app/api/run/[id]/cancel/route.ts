@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelRun } from '@/lib/run-control';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: runId } = await params;
+
+  const outcome = await cancelRun(runId);
+
+  if (outcome === 'not_found') {
+    return NextResponse.json(
+      { error: 'Run not found' },
+      { status: 404 }
+    );
+  }
+
+  if (outcome === 'not_running') {
+    return NextResponse.json(
+      { error: 'Run has already finished' },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json(
+    { run_id: runId, status: outcome },
+    { status: outcome === 'cancelling' ? 202 : 200 }
+  );
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRunEventBus, RunStreamEvent } from '@/lib/run-events';
+import { getRunRepository, isFinished } from '@/lib/run-repository';
+
+export const dynamic = 'force-dynamic';
+
+// First event on every stream, so clients can render before any progress arrives
+interface StatusEvent {
+  type: 'status';
+  status: string;
+  store_url: string;
+  created_at: string;
+}
+
+const HEARTBEAT_MS = 15_000;
+// Fallback for runs this process has no live events for (restart, other instance)
+const STATUS_POLL_MS = 3_000;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: runId } = await params;
+
+  const runs = getRunRepository();
+  const stored = await runs.get(runId);
+
+  if (!stored) {
+    return NextResponse.json(
+      { error: 'Run not found' },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const bus = getRunEventBus();
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+      const timers: ReturnType<typeof setInterval>[] = [];
+      let unsubscribe = () => {};
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        timers.forEach(clearInterval);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Stream was already cancelled by the client
+        }
+      };
+
+      const send = (event: RunStreamEvent | StatusEvent) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        if (event.type === 'done') close();
+      };
+
+      request.signal.addEventListener('abort', close);
+
+      send({ type: 'status', status: stored.status, store_url: stored.store_url, created_at: stored.created_at });
+
+      if (isFinished(stored.status)) {
+        send({ type: 'done', status: stored.status });
+        return;
+      }
+
+      if (bus.has(runId)) {
+        unsubscribe = bus.subscribe(runId, send);
+        // The replayed history may already have finished the stream
+        if (closed) unsubscribe();
+      } else {
+        timers.push(setInterval(async () => {
+          const latest = await runs.get(runId).catch(() => null);
+          if (latest && isFinished(latest.status)) {
+            send({ type: 'done', status: latest.status });
+          }
+        }, STATUS_POLL_MS));
+      }
+
+      // Keep proxies from closing an idle connection during long LLM calls
+      timers.push(setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_MS));
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findingsCsv } from '@/lib/result-exports';
+import { getRunRepository } from '@/lib/run-repository';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: runId } = await params;
+
+  const stored = await getRunRepository().get(runId);
+
+  if (!stored) {
+    return NextResponse.json(
+      { error: 'Run not found' },
+      { status: 404 }
+    );
+  }
+
+  if (!stored.result) {
+    return NextResponse.json(
+      { error: 'Findings are available once the run has finished' },
+      { status: 409 }
+    );
+  }
+
+  return new Response(findingsCsv(stored.result), {
+    headers: {
+      'Content-Type': 'text/csv; charset=utf-8',
+      'Content-Disposition': `attachment; filename="findings-${runId}.csv"`,
+    },
+  });
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { renderReportHtml } from '@/lib/report';
+import { getRunRepository, isFinished } from '@/lib/run-repository';
+
+// Self-contained HTML report; ?download=1 saves it as a file
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: runId } = await params;
+
+  const stored = await getRunRepository().get(runId);
+
+  if (!stored) {
+    return NextResponse.json(
+      { error: 'Run not found' },
+      { status: 404 }
+    );
+  }
+
+  if (!isFinished(stored.status) || !stored.result) {
+    return NextResponse.json(
+      { error: 'The report is available once the run has finished' },
+      { status: 409 }
+    );
+  }
+
+  const html = await renderReportHtml({ ...stored, result: stored.result });
+
+  return new Response(html, {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      ...(request.nextUrl.searchParams.has('download') && {
+        'Content-Disposition': `attachment; filename="checkout-report-${runId}.html"`,
+      }),
+    },
+  });
+}
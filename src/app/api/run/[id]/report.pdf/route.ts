@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { renderReportHtml, renderReportPdf } from '@/lib/report';
+import { getRunRepository, isFinished } from '@/lib/run-repository';
+
+// The HTML report printed to PDF with the local Chromium
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: runId } = await params;
+
+  const stored = await getRunRepository().get(runId);
+
+  if (!stored) {
+    return NextResponse.json(
+      { error: 'Run not found' },
+      { status: 404 }
+    );
+  }
+
+  if (!isFinished(stored.status) || !stored.result) {
+    return NextResponse.json(
+      { error: 'The report is available once the run has finished' },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const pdf = await renderReportPdf(await renderReportHtml({ ...stored, result: stored.result }));
+
+    return new Response(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="checkout-report-${runId}.pdf"`,
+      },
+    });
+  } catch (error) {
+    console.error(`Error rendering PDF report for run_id: ${runId}`, error);
+    return NextResponse.json(
+      { error: 'Failed to render the PDF report' },
+      { status: 500 }
+    );
+  }
+}
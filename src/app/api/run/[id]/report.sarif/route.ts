@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resultSarif } from '@/lib/result-exports';
+import { getRunRepository, normalizeStoreUrl } from '@/lib/run-repository';
+
+// The run's issues as SARIF. ?baseline=<run_id> marks each one new,
+// unchanged or absent compared with an earlier run of the same store.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: runId } = await params;
+  const baselineId = request.nextUrl.searchParams.get('baseline');
+
+  const runs = getRunRepository();
+  const [stored, baseline] = await Promise.all([
+    runs.get(runId),
+    baselineId ? runs.get(baselineId) : null,
+  ]);
+
+  if (!stored || (baselineId && !baseline)) {
+    return NextResponse.json(
+      { error: `Run not found: ${!stored ? runId : baselineId}` },
+      { status: 404 }
+    );
+  }
+
+  if (!stored.result || (baseline && !baseline.result)) {
+    return NextResponse.json(
+      { error: 'Runs must be finished before they can be exported' },
+      { status: 409 }
+    );
+  }
+
+  if (baseline && normalizeStoreUrl(baseline.store_url) !== normalizeStoreUrl(stored.store_url)) {
+    return NextResponse.json(
+      { error: 'The baseline must be a run of the same store_url' },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(resultSarif(stored.result, baseline?.result), {
+    headers: { 'Content-Type': 'application/sarif+json' },
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { resultsStore } from '../start/route';
+import { getRunQueue } from '@/lib/run-queue';
+import { getRunRepository, runAttempts } from '@/lib/run-repository';
 
 export async function GET(
   request: NextRequest,
@@ -7,7 +8,7 @@ export async function GET(
 ) {
   const { id: runId } = await params;
 
-  const stored = resultsStore.get(runId);
+  const stored = await getRunRepository().get(runId);
 
   if (!stored) {
     return NextResponse.json(
@@ -16,10 +17,26 @@ export async function GET(
     );
   }
 
+  if (stored.status === 'queued') {
+    const queue = getRunQueue();
+    return NextResponse.json({
+      run_id: runId,
+      store_url: stored.store_url,
+      status: 'queued',
+      created_at: stored.created_at,
+      queue_position: queue.position(runId),
+      next_attempt_at: queue.nextAttemptAt(runId),
+      attempts: runAttempts(stored),
+    });
+  }
+
   if (stored.status === 'running') {
     return NextResponse.json({
       run_id: runId,
+      store_url: stored.store_url,
       status: 'running',
+      created_at: stored.created_at,
+      attempts: runAttempts(stored),
     });
   }
 
@@ -27,7 +44,15 @@ export async function GET(
   return NextResponse.json({
     run_id: runId,
     status: stored.status,
+    created_at: stored.created_at,
+    completed_at: stored.completed_at,
     ...stored.result,
+    ...(stored.callback_url && {
+      callback_url: stored.callback_url,
+      webhook_attempts: stored.webhook_attempts ?? [],
+    }),
   });
 }
 
+// Alias for POST /api/run/[id]/cancel
+export { POST as DELETE } from './cancel/route';
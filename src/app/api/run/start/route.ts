@@ -1,17 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { randomUUID } from 'crypto';
-import { runAnalysis, AnalysisResult } from '@/lib/agent';
+import { DeviceId, DEVICES } from '@/lib/devices';
+import { launchRun, runSettingsError } from '@/lib/run-launcher';
+import { getWebhookSecret } from '@/lib/webhooks';
 
-// In-memory storage for results (replace with Supabase later for persistence)
-const resultsStore = new Map<string, { status: string; result?: AnalysisResult }>();
-
-// Export the store so other routes can access it
-export { resultsStore };
+// Phone a pair emulates unless the request names one
+const DEFAULT_PAIR_PHONE: DeviceId = 'iphone';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { store_url } = body;
+    const { store_url, skip_steps, browser, persona, device, pair, callback_url } = body;
 
     if (!store_url) {
       return NextResponse.json(
@@ -30,54 +29,64 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate a unique run ID
-    const runId = randomUUID();
-    
-    // Store initial status
-    resultsStore.set(runId, { status: 'running' });
+    const settingsError = runSettingsError(body);
+    if (settingsError) {
+      return NextResponse.json(
+        { error: settingsError },
+        { status: 400 }
+      );
+    }
 
-    console.log(`Starting analysis for: ${store_url}, run_id: ${runId}`);
+    if (pair !== undefined && typeof pair !== 'boolean') {
+      return NextResponse.json(
+        { error: 'pair must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    if (callback_url !== undefined) {
+      if (typeof callback_url !== 'string' || !/^https?:\/\//.test(callback_url) || !URL.canParse(callback_url)) {
+        return NextResponse.json(
+          { error: 'Invalid callback_url, expected an http(s) URL' },
+          { status: 400 }
+        );
+      }
+      if (!getWebhookSecret()) {
+        return NextResponse.json(
+          { error: 'callback_url needs WEBHOOK_SECRET to be set on the server, so deliveries can be signed' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const options = { skipSteps: skip_steps, browser, persona, callback_url };
 
-    // Run analysis in background (don't await)
-    runAnalysis(store_url, runId)
-      .then((result) => {
-        resultsStore.set(runId, { status: 'completed', result });
-        console.log(`Analysis completed for run_id: ${runId}`);
-      })
-      .catch((error) => {
-        console.error(`Analysis failed for run_id: ${runId}`, error);
-        resultsStore.set(runId, { 
-          status: 'failed', 
-          result: {
-            run_id: runId,
-            store_url,
-            status: 'failed',
-            score: 0,
-            metrics: {
-              add_to_cart_success: false,
-              time_to_add_to_cart_seconds: null,
-              checkout_reached: false,
-              drop_off_step: 'initialization',
-            },
-            findings: [{
-              id: 'error',
-              category: 'critical',
-              title: 'Analysis Error',
-              description: error.message || 'Unknown error occurred',
-              evidence: String(error),
-              recommendation: 'Try again or contact support',
-            }],
-            timeline: [],
-            session_url: null,
-            error: error.message,
-          }
-        });
+    // A pair audits the store as desktop and as a phone at the same time
+    if (pair) {
+      const pairId = randomUUID();
+      const phone = device && DEVICES[device as DeviceId].isMobile ? device as DeviceId : DEFAULT_PAIR_PHONE;
+      const [desktopRun, mobileRun] = await Promise.all([
+        launchRun(store_url, { ...options, device: 'desktop', pair_id: pairId }),
+        launchRun(store_url, { ...options, device: phone, pair_id: pairId }),
+      ]);
+
+      return NextResponse.json({
+        pair_id: pairId,
+        store_url,
+        status: 'queued',
+        runs: {
+          desktop: desktopRun.runId,
+          mobile: mobileRun.runId,
+        },
       });
+    }
+
+    const { runId } = await launchRun(store_url, { ...options, device });
 
     return NextResponse.json({
       run_id: runId,
       store_url,
-      status: 'running',
+      status: 'queued',
     });
   } catch (error) {
     console.error('Error starting run:', error);
@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRunRepository, RUN_STATUSES, RunRecord, RunStatus } from '@/lib/run-repository';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+function summarize(record: RunRecord) {
+  const findings = record.result?.findings ?? [];
+  return {
+    run_id: record.run_id,
+    store_url: record.store_url,
+    status: record.status,
+    device: record.device ?? null,
+    pair_id: record.pair_id ?? null,
+    schedule_id: record.schedule_id ?? null,
+    created_at: record.created_at,
+    completed_at: record.completed_at,
+    score: record.result?.score ?? null,
+    drop_off_step: record.result?.metrics.drop_off_step ?? null,
+    finding_counts: {
+      critical: findings.filter(f => f.category === 'critical').length,
+      warning: findings.filter(f => f.category === 'warning').length,
+      suggestion: findings.filter(f => f.category === 'suggestion').length,
+      positive: findings.filter(f => f.category === 'positive').length,
+    },
+  };
+}
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+
+  const status = params.get('status');
+  if (status && !RUN_STATUSES.includes(status as RunStatus)) {
+    return NextResponse.json(
+      { error: `Invalid status, expected one of: ${RUN_STATUSES.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  const from = params.get('from');
+  const to = params.get('to');
+  for (const date of [from, to]) {
+    if (date && Number.isNaN(Date.parse(date))) {
+      return NextResponse.json(
+        { error: `Invalid date: ${date}` },
+        { status: 400 }
+      );
+    }
+  }
+
+  const page = Number(params.get('page') ?? 1);
+  const pageSize = Number(params.get('page_size') ?? DEFAULT_PAGE_SIZE);
+  if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return NextResponse.json(
+      { error: `page must be >= 1 and page_size between 1 and ${MAX_PAGE_SIZE}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { runs, total } = await getRunRepository().list({
+      store_url: params.get('store_url') || undefined,
+      status: (status as RunStatus) || undefined,
+      // A bare date as the upper bound should include that whole day
+      from: from ? new Date(from).toISOString() : undefined,
+      to: to ? (/^\d{4}-\d{2}-\d{2}$/.test(to) ? `${to}T23:59:59.999Z` : new Date(to).toISOString()) : undefined,
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    });
+
+    return NextResponse.json({
+      runs: runs.map(summarize),
+      total,
+      page,
+      page_size: pageSize,
+    });
+  } catch (error) {
+    console.error('Error listing runs:', error);
+    return NextResponse.json(
+      { error: 'Failed to list runs' },
+      { status: 500 }
+    );
+  }
+}
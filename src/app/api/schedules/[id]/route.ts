@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getRunRepository } from '@/lib/run-repository';
+import { getScheduleRepository } from '@/lib/schedule-repository';
+
+// How many of the schedule's latest runs to include
+const RECENT_RUNS = 20;
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: scheduleId } = await params;
+
+  const schedule = await getScheduleRepository().get(scheduleId);
+  if (!schedule) {
+    return NextResponse.json(
+      { error: 'Schedule not found' },
+      { status: 404 }
+    );
+  }
+
+  const { runs } = await getRunRepository().list({ schedule_id: scheduleId, limit: RECENT_RUNS });
+
+  return NextResponse.json({
+    ...schedule,
+    runs: runs.map(record => ({
+      run_id: record.run_id,
+      status: record.status,
+      created_at: record.created_at,
+      score: record.result?.score ?? null,
+      checkout_reached: record.result?.metrics.checkout_reached ?? null,
+      drop_off_step: record.result?.metrics.drop_off_step ?? null,
+    })),
+  });
+}
+
+// Stops future runs; runs already started finish and keep their records
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: scheduleId } = await params;
+
+  if (!await getScheduleRepository().delete(scheduleId)) {
+    return NextResponse.json(
+      { error: 'Schedule not found' },
+      { status: 404 }
+    );
+  }
+
+  return NextResponse.json({ schedule_id: scheduleId, status: 'deleted' });
+}
@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { cronError } from '@/lib/cron';
+import { runSettings, runSettingsError } from '@/lib/run-launcher';
+import { getScheduleRepository } from '@/lib/schedule-repository';
+import { createSchedule, DEFAULT_SCORE_DROP_THRESHOLD } from '@/lib/schedules';
+import { getWebhookSecret } from '@/lib/webhooks';
+
+// Registers a store for recurring audits:
+// { store_url, cron, webhook_url?, score_drop_threshold?, ...run settings }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { store_url, cron, webhook_url, score_drop_threshold = DEFAULT_SCORE_DROP_THRESHOLD } = body;
+
+    if (!store_url) {
+      return NextResponse.json(
+        { error: 'Store URL is required' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      new URL(store_url);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid URL format' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof cron !== 'string') {
+      return NextResponse.json(
+        { error: 'cron is required, e.g. "0 3 * * *" for daily at 03:00' },
+        { status: 400 }
+      );
+    }
+
+    const invalidCron = cronError(cron);
+    if (invalidCron) {
+      return NextResponse.json(
+        { error: invalidCron },
+        { status: 400 }
+      );
+    }
+
+    if (webhook_url !== undefined) {
+      try {
+        new URL(webhook_url);
+      } catch {
+        return NextResponse.json(
+          { error: 'Invalid webhook_url' },
+          { status: 400 }
+        );
+      }
+      if (!getWebhookSecret()) {
+        return NextResponse.json(
+          { error: 'webhook_url needs WEBHOOK_SECRET to be set on the server, so alerts can be signed' },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (typeof score_drop_threshold !== 'number' || score_drop_threshold < 1 || score_drop_threshold > 100) {
+      return NextResponse.json(
+        { error: 'score_drop_threshold must be a number between 1 and 100' },
+        { status: 400 }
+      );
+    }
+
+    const settingsError = runSettingsError(body);
+    if (settingsError) {
+      return NextResponse.json(
+        { error: settingsError },
+        { status: 400 }
+      );
+    }
+
+    const schedule = await createSchedule({
+      store_url,
+      cron: cron.trim(),
+      options: runSettings(body),
+      webhook_url: webhook_url ?? null,
+      score_drop_threshold,
+    });
+
+    return NextResponse.json(schedule);
+  } catch (error) {
+    console.error('Error creating schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET() {
+  try {
+    return NextResponse.json({ schedules: await getScheduleRepository().list() });
+  } catch (error) {
+    console.error('Error listing schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to list schedules' },
+      { status: 500 }
+    );
+  }
+}
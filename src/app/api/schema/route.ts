@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { analysisResultJsonSchema } from '@/lib/result-schema';
+
+// JSON Schema of AnalysisResult (with Finding and TimelineEvent), for the
+// schema_version results currently carry
+export async function GET() {
+  return NextResponse.json(analysisResultJsonSchema(), {
+    headers: { 'Content-Type': 'application/schema+json' },
+  });
+}
@@ -0,0 +1,228 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface BatchRow {
+  store_url: string;
+  run_id: string | null;
+  status: 'pending' | 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  score: number | null;
+  add_to_cart_success: boolean | null;
+  checkout_reached: boolean | null;
+  checkout_form_filled: boolean | null;
+  time_to_add_to_cart_seconds: number | null;
+  drop_off_step: string | null;
+  critical_count: number | null;
+  warning_count: number | null;
+  top_critical: string[];
+}
+
+interface BatchSummary {
+  batch_id: string;
+  created_at: string;
+  concurrency: number;
+  status: 'running' | 'finished' | 'interrupted';
+  progress: {
+    total: number;
+    pending: number;
+    queued: number;
+    running: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+  };
+  rows: BatchRow[];
+}
+
+type SortKey = 'store_url' | 'status' | 'score' | 'time_to_add_to_cart_seconds' | 'drop_off_step' | 'critical_count' | 'warning_count';
+
+const POLL_INTERVAL_MS = 5000;
+
+const COLUMNS: { key: SortKey | null; label: string }[] = [
+  { key: 'store_url', label: 'Store' },
+  { key: 'score', label: 'Score' },
+  { key: null, label: 'Funnel' },
+  { key: 'time_to_add_to_cart_seconds', label: 'Time to Cart' },
+  { key: 'drop_off_step', label: 'Drop-off Step' },
+  { key: 'critical_count', label: 'Critical' },
+  { key: null, label: 'Top Critical Findings' },
+];
+
+function Mark({ value }: { value: boolean | null }) {
+  if (value === null) return <span className="text-gray-300">–</span>;
+  return <span className={value ? 'text-green-500' : 'text-red-500'}>{value ? '✓' : '✗'}</span>;
+}
+
+export default function BatchDetailPage() {
+  const params = useParams();
+  const batchId = params.id as string;
+  const [batch, setBatch] = useState<BatchSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sort, setSort] = useState<SortKey>('score');
+  const [order, setOrder] = useState<'asc' | 'desc'>('asc');
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = async () => {
+      try {
+        const query = new URLSearchParams({ sort, order });
+        const response = await fetch(`/api/batch/${batchId}?${query}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error || 'Failed to load batch');
+          return;
+        }
+
+        setBatch(data);
+        if (data.status === 'running') {
+          timer = setTimeout(load, POLL_INTERVAL_MS);
+        }
+      } catch {
+        setError('Failed to connect to server. Please try again.');
+      }
+    };
+
+    load();
+    return () => clearTimeout(timer);
+  }, [batchId, sort, order]);
+
+  const sortBy = (key: SortKey) => {
+    if (key === sort) {
+      setOrder(order === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSort(key);
+      setOrder('asc');
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-[#fafafa] px-4 py-12">
+        <div className="max-w-6xl mx-auto">
+          <p className="text-red-600">{error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const progress = batch?.progress;
+  const done = progress ? progress.completed + progress.failed + progress.cancelled : 0;
+
+  return (
+    <div className="min-h-screen bg-[#fafafa] px-4 py-12">
+      <div className="max-w-6xl mx-auto">
+        <Link href="/batch" className="text-[#f97316] hover:underline text-sm mb-6 inline-block">
+          ← Back to batches
+        </Link>
+
+        {!batch || !progress ? (
+          <div className="flex items-center gap-3">
+            <div className="animate-spin h-5 w-5 border-2 border-[#f97316] border-t-transparent rounded-full" />
+            <span className="text-gray-600">Loading batch...</span>
+          </div>
+        ) : (
+          <>
+            {/* Progress */}
+            <div className="bg-white rounded-2xl shadow-lg p-8 mb-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h1 className="text-2xl font-semibold text-gray-900 mb-1">Batch Audit</h1>
+                  <p className="text-gray-500 text-sm">
+                    Started {new Date(batch.created_at).toLocaleString()} · {batch.concurrency} at a time
+                  </p>
+                </div>
+                <a
+                  href={`/api/batch/${batchId}?${new URLSearchParams({ sort, order, format: 'csv' })}`}
+                  className="bg-[#f97316] hover:bg-[#ea580c] text-white text-sm px-5 py-2 rounded-full transition"
+                >
+                  Export CSV
+                </a>
+              </div>
+
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden mb-2">
+                <div
+                  className="h-full bg-[#f97316] transition-all"
+                  style={{ width: `${progress.total ? (done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+              <p className="text-sm text-gray-600">
+                {done} of {progress.total} done · {progress.running} running · {progress.pending + progress.queued} queued
+                {progress.failed > 0 && <> · <span className="text-red-600">{progress.failed} failed</span></>}
+              </p>
+              {batch.status === 'interrupted' && (
+                <p className="text-sm text-yellow-600 mt-2">
+                  The server restarted while this batch was in progress; queued stores were not audited.
+                </p>
+              )}
+            </div>
+
+            {/* Aggregate table */}
+            <div className="bg-white rounded-2xl shadow-lg p-6 overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    {COLUMNS.map(({ key, label }) => (
+                      <th key={label} className="py-2 pr-3 font-medium whitespace-nowrap">
+                        {key ? (
+                          <button onClick={() => sortBy(key)} className="hover:text-[#f97316]">
+                            {label}{sort === key ? (order === 'asc' ? ' ↑' : ' ↓') : ''}
+                          </button>
+                        ) : label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {batch.rows.map((row) => (
+                    <tr key={row.store_url} className="border-b border-gray-100 last:border-0 align-top">
+                      <td className="py-3 pr-3">
+                        {row.run_id ? (
+                          <Link href={`/run/${row.run_id}`} className="text-gray-900 hover:text-[#f97316]">
+                            {row.store_url}
+                          </Link>
+                        ) : (
+                          <span className="text-gray-500">{row.store_url}</span>
+                        )}
+                      </td>
+                      <td className="py-3 pr-3">
+                        {row.score === null ? (
+                          <span className="text-gray-400">{row.status === 'pending' || row.status === 'queued' ? 'Queued' : row.status === 'running' ? 'Running…' : '-'}</span>
+                        ) : (
+                          <span className={`font-semibold ${
+                            row.score >= 70 ? 'text-green-500' :
+                            row.score >= 40 ? 'text-yellow-500' : 'text-red-500'
+                          }`}>
+                            {row.score}
+                          </span>
+                        )}
+                      </td>
+                      <td className="py-3 pr-3 whitespace-nowrap" title="Add to cart / Checkout reached / Form filled">
+                        <Mark value={row.add_to_cart_success} /> <Mark value={row.checkout_reached} /> <Mark value={row.checkout_form_filled} />
+                      </td>
+                      <td className="py-3 pr-3 text-gray-700">
+                        {row.time_to_add_to_cart_seconds !== null ? `${row.time_to_add_to_cart_seconds}s` : '-'}
+                      </td>
+                      <td className="py-3 pr-3 text-gray-700">{row.drop_off_step ?? (row.score !== null ? 'None' : '-')}</td>
+                      <td className="py-3 pr-3 text-red-600">{row.critical_count ?? '-'}</td>
+                      <td className="py-3 text-gray-700">
+                        {row.top_critical.length === 0 ? '-' : (
+                          <ul className="list-disc list-inside">
+                            {row.top_critical.map((title) => <li key={title}>{title}</li>)}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
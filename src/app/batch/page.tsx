@@ -0,0 +1,201 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+interface BatchListItem {
+  batch_id: string;
+  created_at: string;
+  concurrency: number;
+  status: 'running' | 'finished' | 'interrupted';
+  progress: {
+    total: number;
+    pending: number;
+    queued: number;
+    running: number;
+    completed: number;
+    failed: number;
+    cancelled: number;
+  };
+}
+
+export default function BatchPage() {
+  const router = useRouter();
+  const [list, setList] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [device, setDevice] = useState('desktop');
+  const [concurrency, setConcurrency] = useState('3');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [batches, setBatches] = useState<BatchListItem[] | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/batch');
+        const data = await response.json();
+        if (response.ok) {
+          setBatches(data.batches);
+        }
+      } catch {
+        // The upload form still works without the list
+      }
+    };
+
+    load();
+  }, []);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    setList(await file.text());
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!list.trim()) {
+      setError('Upload a CSV or JSON file, or paste one store URL per line');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const isJson = /^\s*[[{]/.test(list);
+      const query = new URLSearchParams({ device, concurrency });
+      const response = await fetch(`/api/batch?${query}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': isJson ? 'application/json' : 'text/csv',
+        },
+        body: list,
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to start batch');
+        return;
+      }
+
+      router.push(`/batch/${data.batch_id}`);
+    } catch {
+      setError('Failed to connect to server. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#fafafa] px-4 py-12">
+      <div className="max-w-5xl mx-auto">
+        <Link href="/" className="text-[#f97316] hover:underline text-sm mb-6 inline-block">
+          ← Back to home
+        </Link>
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-lg p-8 mb-6">
+          <h1 className="text-2xl font-semibold text-gray-900 mb-2">Batch Audit</h1>
+          <p className="text-gray-500 text-sm mb-6">
+            Upload a CSV with a <code>store_url</code> column, a JSON array of URLs, or paste one URL per line.
+          </p>
+
+          <label className="block mb-3">
+            <span className="sr-only">Store list file</span>
+            <input
+              type="file"
+              accept=".csv,.json,.txt,text/csv,application/json,text/plain"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={isSubmitting}
+              className="text-sm text-gray-600 file:mr-3 file:px-4 file:py-2 file:rounded-full file:border-0 file:bg-orange-50 file:text-[#f97316]"
+            />
+          </label>
+
+          <textarea
+            value={list}
+            onChange={(e) => { setList(e.target.value); setFileName(null); }}
+            placeholder={'store-one.com\nstore-two.com'}
+            rows={8}
+            disabled={isSubmitting}
+            className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm font-mono outline-none focus:border-[#f97316]"
+          />
+          {fileName && <p className="text-xs text-gray-400 mt-1">Loaded from {fileName}</p>}
+
+          <div className="flex flex-wrap items-center gap-3 mt-4">
+            <select
+              value={device}
+              onChange={(e) => setDevice(e.target.value)}
+              disabled={isSubmitting}
+              className="border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-[#f97316]"
+            >
+              <option value="desktop">Desktop</option>
+              <option value="iphone">iPhone</option>
+              <option value="pixel">Pixel</option>
+            </select>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Concurrent runs
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={concurrency}
+                onChange={(e) => setConcurrency(e.target.value)}
+                disabled={isSubmitting}
+                className="w-16 border border-gray-200 rounded-lg px-2 py-2 text-sm outline-none focus:border-[#f97316]"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={isSubmitting || !list.trim()}
+              className="ml-auto bg-[#f97316] hover:bg-[#ea580c] disabled:bg-[#fdba74] text-white text-sm font-medium px-6 py-2.5 rounded-full transition-colors"
+            >
+              {isSubmitting ? 'Starting…' : 'Start Batch'}
+            </button>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-500 mt-3">{error}</p>
+          )}
+        </form>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Previous Batches</h2>
+          {!batches ? (
+            <p className="text-gray-500 text-sm">Loading…</p>
+          ) : batches.length === 0 ? (
+            <p className="text-gray-500 text-sm">No batches yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 font-medium">Started</th>
+                  <th className="py-2 font-medium">Stores</th>
+                  <th className="py-2 font-medium">Progress</th>
+                  <th className="py-2 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batches.map((batch) => (
+                  <tr key={batch.batch_id} className="border-b border-gray-100 last:border-0">
+                    <td className="py-3">
+                      <Link href={`/batch/${batch.batch_id}`} className="text-gray-900 hover:text-[#f97316]">
+                        {new Date(batch.created_at).toLocaleString()}
+                      </Link>
+                    </td>
+                    <td className="py-3 text-gray-700">{batch.progress.total}</td>
+                    <td className="py-3 text-gray-700">
+                      {batch.progress.total - batch.progress.pending - batch.progress.queued - batch.progress.running} / {batch.progress.total} done
+                    </td>
+                    <td className="py-3 text-gray-500">{batch.status}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
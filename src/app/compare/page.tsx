@@ -0,0 +1,184 @@
+'use client';
+
+import { useSearchParams } from 'next/navigation';
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface Finding {
+  id: string;
+  category: 'critical' | 'warning' | 'suggestion' | 'positive';
+  title: string;
+  description: string;
+  evidence: string;
+  recommendation: string;
+}
+
+interface RunComparison {
+  store_url: string;
+  a: { run_id: string; score: number; drop_off_step: string | null };
+  b: { run_id: string; score: number; drop_off_step: string | null };
+  score_delta: number;
+  flipped_metrics: { metric: string; before: boolean; after: boolean }[];
+  findings: {
+    added: Finding[];
+    resolved: Finding[];
+    unchanged: Finding[];
+  };
+}
+
+const METRIC_LABELS: Record<string, string> = {
+  add_to_cart_success: 'Add to Cart',
+  checkout_reached: 'Checkout Reached',
+  checkout_form_filled: 'Form Filled',
+};
+
+function FindingList({ title, findings, tone }: { title: string; findings: Finding[]; tone: 'red' | 'green' | 'gray' }) {
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">
+        {title} <span className="text-gray-400 font-normal">({findings.length})</span>
+      </h2>
+      {findings.length === 0 ? (
+        <p className="text-gray-500 text-sm">None</p>
+      ) : (
+        <div className="space-y-3">
+          {findings.map((finding) => (
+            <div
+              key={finding.id}
+              className={`p-4 rounded-lg border-l-4 ${
+                tone === 'red' ? 'bg-red-50 border-red-500' :
+                tone === 'green' ? 'bg-green-50 border-green-500' :
+                'bg-gray-50 border-gray-300'
+              }`}
+            >
+              <span className="text-xs font-medium uppercase text-gray-500">
+                {finding.category === 'suggestion' ? 'optimization' : finding.category}
+              </span>
+              <h3 className="font-medium text-gray-900 mt-1">{finding.title}</h3>
+              <p className="text-gray-400 text-xs font-mono mt-1">{finding.id}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Comparison() {
+  const searchParams = useSearchParams();
+  const a = searchParams.get('a');
+  const b = searchParams.get('b');
+  const [comparison, setComparison] = useState<RunComparison | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!a || !b) return;
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/compare?a=${encodeURIComponent(a)}&b=${encodeURIComponent(b)}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error || 'Failed to compare runs');
+          return;
+        }
+
+        setComparison(data);
+      } catch {
+        setError('Failed to connect to server. Please try again.');
+      }
+    };
+
+    load();
+  }, [a, b]);
+
+  if (!a || !b) {
+    return <p className="text-gray-600">Pick two runs of the same store from the run history to compare.</p>;
+  }
+
+  if (error) {
+    return <p className="text-red-600">{error}</p>;
+  }
+
+  if (!comparison) {
+    return (
+      <div className="flex items-center gap-3">
+        <div className="animate-spin h-5 w-5 border-2 border-[#f97316] border-t-transparent rounded-full" />
+        <span className="text-gray-600">Comparing runs...</span>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {/* Score delta */}
+      <div className="bg-white rounded-2xl shadow-lg p-8 mb-6">
+        <h1 className="text-2xl font-semibold text-gray-900 mb-1">Run Comparison</h1>
+        <p className="text-gray-500 mb-6">{comparison.store_url}</p>
+
+        <div className="grid grid-cols-3 gap-4 items-center text-center">
+          <Link href={`/run/${comparison.a.run_id}`} className="hover:opacity-80">
+            <div className="text-4xl font-bold text-gray-700">{comparison.a.score}</div>
+            <p className="text-gray-500 text-sm">Before</p>
+          </Link>
+          <div className={`text-3xl font-bold ${
+            comparison.score_delta > 0 ? 'text-green-500' :
+            comparison.score_delta < 0 ? 'text-red-500' : 'text-gray-400'
+          }`}>
+            {comparison.score_delta > 0 ? '+' : ''}{comparison.score_delta}
+          </div>
+          <Link href={`/run/${comparison.b.run_id}`} className="hover:opacity-80">
+            <div className="text-4xl font-bold text-gray-900">{comparison.b.score}</div>
+            <p className="text-gray-500 text-sm">After</p>
+          </Link>
+        </div>
+      </div>
+
+      {/* Metric flips */}
+      <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Funnel Changes</h2>
+        <div className="space-y-2 text-sm">
+          {comparison.flipped_metrics.length === 0 ? (
+            <p className="text-gray-500">No funnel metrics changed.</p>
+          ) : (
+            comparison.flipped_metrics.map((change) => (
+              <p key={change.metric} className="text-gray-700">
+                {METRIC_LABELS[change.metric] ?? change.metric}:{' '}
+                <span className={change.before ? 'text-green-500' : 'text-red-500'}>{change.before ? '✓' : '✗'}</span>
+                {' → '}
+                <span className={change.after ? 'text-green-500' : 'text-red-500'}>{change.after ? '✓' : '✗'}</span>
+              </p>
+            ))
+          )}
+          {comparison.a.drop_off_step !== comparison.b.drop_off_step && (
+            <p className="text-gray-700">
+              Drop-off step: {comparison.a.drop_off_step ?? 'None'} → {comparison.b.drop_off_step ?? 'None'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <FindingList title="Added" findings={comparison.findings.added} tone="red" />
+        <FindingList title="Resolved" findings={comparison.findings.resolved} tone="green" />
+        <FindingList title="Unchanged" findings={comparison.findings.unchanged} tone="gray" />
+      </div>
+    </>
+  );
+}
+
+export default function ComparePage() {
+  return (
+    <div className="min-h-screen bg-[#fafafa] px-4 py-12">
+      <div className="max-w-4xl mx-auto">
+        <Link href="/runs" className="text-[#f97316] hover:underline text-sm mb-6 inline-block">
+          ← Back to run history
+        </Link>
+        <Suspense>
+          <Comparison />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
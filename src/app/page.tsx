@@ -2,10 +2,20 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+
+const DEVICE_OPTIONS = [
+  { id: 'desktop', label: 'Desktop' },
+  { id: 'iphone', label: 'iPhone' },
+  { id: 'pixel', label: 'Pixel' },
+  // Starts a desktop and an iPhone run side by side
+  { id: 'pair', label: 'Desktop + Mobile' },
+];
 
 export default function HomePage() {
   const router = useRouter();
   const [storeUrl, setStoreUrl] = useState('');
+  const [device, setDevice] = useState('desktop');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -41,6 +51,7 @@ export default function HomePage() {
         },
         body: JSON.stringify({
           store_url: url,
+          ...(device === 'pair' ? { pair: true } : { device }),
         }),
       });
 
@@ -51,7 +62,7 @@ export default function HomePage() {
         return;
       }
 
-      router.push(`/run/${data.run_id}`);
+      router.push(data.pair_id ? `/pair/${data.pair_id}` : `/run/${data.run_id}`);
     } catch {
       setError('Failed to connect to server. Please try again.');
     } finally {
@@ -160,10 +171,40 @@ export default function HomePage() {
           </button>
         </div>
 
+        <div className="flex justify-center gap-2 mt-4">
+          {DEVICE_OPTIONS.map((option) => (
+            <button
+              key={option.id}
+              type="button"
+              onClick={() => setDevice(option.id)}
+              disabled={isSubmitting}
+              className={`text-sm px-3 py-1 rounded-full border transition-colors ${
+                device === option.id
+                  ? 'bg-[#f97316] border-[#f97316] text-white'
+                  : 'bg-white border-gray-200 text-gray-600 hover:border-[#f97316]'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
         {error && (
           <p className="text-sm text-red-500 mt-3 text-center">{error}</p>
         )}
       </form>
+
+      <div className="flex gap-6 mt-6">
+        <Link href="/runs" className="text-sm text-gray-500 hover:text-[#f97316]">
+          View past analyses →
+        </Link>
+        <Link href="/batch" className="text-sm text-gray-500 hover:text-[#f97316]">
+          Audit many stores →
+        </Link>
+        <Link href="/schedules" className="text-sm text-gray-500 hover:text-[#f97316]">
+          Monitor a store →
+        </Link>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,268 @@
+'use client';
+
+import { useParams } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface Finding {
+  id: string;
+  category: 'critical' | 'warning' | 'suggestion' | 'positive';
+  title: string;
+  description: string;
+  evidence: string;
+  recommendation: string;
+}
+
+interface DeviceRunSummary {
+  run_id: string;
+  device: string;
+  score: number;
+  funnel: Record<string, boolean>;
+  drop_off_step: string | null;
+}
+
+interface MetricChange {
+  metric: string;
+  before: boolean;
+  after: boolean;
+}
+
+interface DeviceComparison {
+  store_url: string;
+  desktop: DeviceRunSummary;
+  mobile: DeviceRunSummary;
+  score_delta: number;
+  diverges_at: MetricChange | null;
+  flipped_metrics: MetricChange[];
+  findings: {
+    desktop_only: Finding[];
+    mobile_only: Finding[];
+    both: Finding[];
+  };
+}
+
+interface PairMember {
+  run_id: string;
+  device: string | null;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+}
+
+interface DevicePair {
+  pair_id: string;
+  store_url: string;
+  status: 'running' | 'finished';
+  runs: { desktop: PairMember; mobile: PairMember };
+  comparison: DeviceComparison | null;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+const DEVICE_LABELS: Record<string, string> = {
+  desktop: 'Desktop',
+  iphone: 'iPhone 15',
+  pixel: 'Pixel 8',
+};
+
+const METRIC_LABELS: Record<string, string> = {
+  add_to_cart_success: 'Add to Cart',
+  checkout_reached: 'Checkout Reached',
+  checkout_form_filled: 'Form Filled',
+};
+
+function FindingList({ title, findings, tone }: { title: string; findings: Finding[]; tone: 'blue' | 'orange' | 'gray' }) {
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6">
+      <h2 className="text-lg font-semibold text-gray-900 mb-4">
+        {title} <span className="text-gray-400 font-normal">({findings.length})</span>
+      </h2>
+      {findings.length === 0 ? (
+        <p className="text-gray-500 text-sm">None</p>
+      ) : (
+        <div className="space-y-3">
+          {findings.map((finding) => (
+            <div
+              key={finding.id}
+              className={`p-4 rounded-lg border-l-4 ${
+                tone === 'blue' ? 'bg-blue-50 border-blue-500' :
+                tone === 'orange' ? 'bg-orange-50 border-orange-500' :
+                'bg-gray-50 border-gray-300'
+              }`}
+            >
+              <span className="text-xs font-medium uppercase text-gray-500">
+                {finding.category === 'suggestion' ? 'optimization' : finding.category}
+              </span>
+              <h3 className="font-medium text-gray-900 mt-1">{finding.title}</h3>
+              <p className="text-gray-400 text-xs font-mono mt-1">{finding.id}</p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function Mark({ value }: { value: boolean }) {
+  return <span className={value ? 'text-green-500' : 'text-red-500'}>{value ? '✓' : '✗'}</span>;
+}
+
+export default function PairPage() {
+  const params = useParams();
+  const pairId = params.id as string;
+  const [pair, setPair] = useState<DevicePair | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/pair/${pairId}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          setError(data.error || 'Failed to load the device pair');
+          return;
+        }
+
+        setPair(data);
+        if (data.status === 'running') {
+          timer = setTimeout(load, POLL_INTERVAL_MS);
+        }
+      } catch {
+        setError('Failed to connect to server. Please try again.');
+      }
+    };
+
+    load();
+    return () => clearTimeout(timer);
+  }, [pairId]);
+
+  const body = () => {
+    if (error) {
+      return <p className="text-red-600">{error}</p>;
+    }
+
+    if (!pair) {
+      return (
+        <div className="flex items-center gap-3">
+          <div className="animate-spin h-5 w-5 border-2 border-[#f97316] border-t-transparent rounded-full" />
+          <span className="text-gray-600">Loading...</span>
+        </div>
+      );
+    }
+
+    const { comparison } = pair;
+
+    if (!comparison) {
+      return (
+        <div className="bg-white rounded-2xl shadow-lg p-8">
+          <h1 className="text-2xl font-semibold text-gray-900 mb-1">Desktop vs Mobile</h1>
+          <p className="text-gray-500 mb-6">{pair.store_url}</p>
+          <div className="space-y-3">
+            {[pair.runs.desktop, pair.runs.mobile].map((run) => (
+              <Link
+                key={run.run_id}
+                href={`/run/${run.run_id}`}
+                className="flex items-center justify-between p-3 rounded-lg bg-gray-50 hover:bg-gray-100"
+              >
+                <span className="text-gray-900">{DEVICE_LABELS[run.device ?? ''] ?? run.device}</span>
+                <span className="flex items-center gap-2 text-sm text-gray-500">
+                  {run.status === 'running' && (
+                    <span className="animate-spin h-4 w-4 border-2 border-[#f97316] border-t-transparent rounded-full" />
+                  )}
+                  {run.status}
+                </span>
+              </Link>
+            ))}
+          </div>
+          <p className="text-gray-500 text-sm mt-4">The combined report appears when both runs have finished.</p>
+        </div>
+      );
+    }
+
+    const { desktop, mobile, diverges_at } = comparison;
+
+    return (
+      <>
+        {/* Scores */}
+        <div className="bg-white rounded-2xl shadow-lg p-8 mb-6">
+          <h1 className="text-2xl font-semibold text-gray-900 mb-1">Desktop vs Mobile</h1>
+          <p className="text-gray-500 mb-6">{comparison.store_url}</p>
+
+          <div className="grid grid-cols-3 gap-4 items-center text-center">
+            <Link href={`/run/${desktop.run_id}`} className="hover:opacity-80">
+              <div className="text-4xl font-bold text-gray-900">{desktop.score}</div>
+              <p className="text-gray-500 text-sm">{DEVICE_LABELS[desktop.device] ?? desktop.device}</p>
+            </Link>
+            <div className={`text-3xl font-bold ${
+              comparison.score_delta > 0 ? 'text-green-500' :
+              comparison.score_delta < 0 ? 'text-red-500' : 'text-gray-400'
+            }`}>
+              {comparison.score_delta > 0 ? '+' : ''}{comparison.score_delta}
+            </div>
+            <Link href={`/run/${mobile.run_id}`} className="hover:opacity-80">
+              <div className="text-4xl font-bold text-gray-900">{mobile.score}</div>
+              <p className="text-gray-500 text-sm">{DEVICE_LABELS[mobile.device] ?? mobile.device}</p>
+            </Link>
+          </div>
+        </div>
+
+        {/* Funnel divergence */}
+        <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Funnel</h2>
+          {diverges_at ? (
+            <p className="text-gray-700 mb-4">
+              The funnels part ways at <strong>{METRIC_LABELS[diverges_at.metric] ?? diverges_at.metric}</strong>:
+              it {diverges_at.before ? 'works' : 'fails'} on desktop but {diverges_at.after ? 'works' : 'fails'} on mobile.
+            </p>
+          ) : (
+            <p className="text-gray-500 mb-4">Both devices got equally far through the funnel.</p>
+          )}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-medium py-1">Step</th>
+                <th className="font-medium py-1 text-center">Desktop</th>
+                <th className="font-medium py-1 text-center">Mobile</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-700">
+              {Object.entries(METRIC_LABELS).map(([metric, label]) => {
+                const diverged = desktop.funnel[metric] !== mobile.funnel[metric];
+                return (
+                  <tr key={metric} className={diverged ? 'bg-orange-50' : ''}>
+                    <td className="py-1">{label}</td>
+                    <td className="py-1 text-center"><Mark value={desktop.funnel[metric]} /></td>
+                    <td className="py-1 text-center"><Mark value={mobile.funnel[metric]} /></td>
+                  </tr>
+                );
+              })}
+              <tr className={desktop.drop_off_step !== mobile.drop_off_step ? 'bg-orange-50' : ''}>
+                <td className="py-1">Drop-off step</td>
+                <td className="py-1 text-center">{desktop.drop_off_step ?? 'None'}</td>
+                <td className="py-1 text-center">{mobile.drop_off_step ?? 'None'}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-6">
+          <FindingList title="Only on mobile" findings={comparison.findings.mobile_only} tone="orange" />
+          <FindingList title="Only on desktop" findings={comparison.findings.desktop_only} tone="blue" />
+          <FindingList title="On both" findings={comparison.findings.both} tone="gray" />
+        </div>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-[#fafafa] px-4 py-12">
+      <div className="max-w-4xl mx-auto">
+        <Link href="/" className="text-[#f97316] hover:underline text-sm mb-6 inline-block">
+          ← Analyze another store
+        </Link>
+        {body()}
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,10 @@
 
 import { useParams } from 'next/navigation';
 import { useEffect, useState } from 'react';
+import Image from 'next/image';
 import Link from 'next/link';
+import { CATEGORY_LABELS, groupFindings } from '@/lib/findings';
+import { rateVital, VitalRating, VITALS } from '@/lib/web-vitals';
 
 interface Finding {
   id: string;
@@ -11,6 +14,7 @@ interface Finding {
   description: string;
   evidence: string;
   recommendation: string;
+  screenshot?: string;
 }
 
 interface TimelineEvent {
@@ -18,13 +22,46 @@ interface TimelineEvent {
   action: string;
   url: string;
   success: boolean;
+  screenshot?: string;
+}
+
+interface ScoreItem {
+  label: string;
+  points: number;
+  finding_id?: string;
+}
+
+interface ScoreBreakdown {
+  total: number;
+  funnel: ScoreItem[];
+  ux_base: number;
+  deductions: ScoreItem[];
+  ux: number;
+}
+
+interface PagePerformance {
+  page: string;
+  url: string;
+  ttfb_ms: number | null;
+  lcp_ms: number | null;
+  cls: number;
+  inp_ms: number | null;
+  tbt_ms: number;
+  transfer_bytes: number | null;
+}
+
+interface RetryNotice {
+  attempt: number;
+  error: string;
+  next_attempt_at: string;
 }
 
 interface RunResult {
   run_id: string;
   store_url: string;
-  status: 'running' | 'completed' | 'failed';
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
   score?: number;
+  score_breakdown?: ScoreBreakdown;
   metrics?: {
     add_to_cart_success: boolean;
     time_to_add_to_cart_seconds: number | null;
@@ -35,40 +72,197 @@ interface RunResult {
   findings?: Finding[];
   timeline?: TimelineEvent[];
   session_url?: string | null;
+  device?: string;
+  performance?: { pages: PagePerformance[] };
   error?: string;
 }
 
+const DEVICE_LABELS: Record<string, string> = {
+  iphone: 'iPhone 15',
+  pixel: 'Pixel 8',
+};
+
+const PHASE_LABELS: Record<string, string> = {
+  initialization: 'Starting browser session',
+  homepage: 'Analyzing homepage',
+  product_discovery: 'Finding products',
+  add_to_cart: 'Testing add-to-cart',
+  checkout_navigation: 'Navigating to checkout',
+  checkout_form: 'Filling checkout form',
+  scoring: 'Generating UX analysis report',
+};
+
+const PAGE_LABELS: Record<string, string> = {
+  homepage: 'Homepage',
+  product: 'Product',
+  cart: 'Cart',
+  checkout: 'Checkout',
+};
+
+const RATING_COLORS: Record<VitalRating, string> = {
+  good: 'bg-green-500',
+  'needs-improvement': 'bg-yellow-500',
+  poor: 'bg-red-500',
+};
+
+function formatElapsed(ms: number) {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+function ScoreRow({ label, points, muted = false }: { label: string; points: number; muted?: boolean }) {
+  return (
+    <div className={`flex justify-between ${muted ? 'text-gray-400' : 'text-gray-700'}`}>
+      <span>{label}</span>
+      <span className={`font-medium tabular-nums ${
+        points > 0 ? 'text-green-600' : points < 0 ? 'text-red-600' : ''
+      }`}>
+        {points > 0 ? `+${points}` : points}
+      </span>
+    </div>
+  );
+}
+
+// One bar chart per metric, a bar per funnel page. Bars are scaled so the
+// "poor" threshold sits at 80% of the width; the two ticks mark the good and
+// poor thresholds.
+function PerformanceCharts({ pages }: { pages: PagePerformance[] }) {
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      {VITALS.map((vital) => {
+        const measured = pages.filter((page) => page[vital.key] !== null);
+        if (measured.length === 0) {
+          return null;
+        }
+        const scale = Math.max(vital.poor * 1.25, ...measured.map((page) => page[vital.key] as number));
+        const position = (value: number) => `${Math.min(100, (value / scale) * 100)}%`;
+
+        return (
+          <div key={vital.key}>
+            <h3 className="text-sm font-medium text-gray-900 mb-2">{vital.label}</h3>
+            <div className="space-y-1.5">
+              {measured.map((page) => {
+                const value = page[vital.key] as number;
+                return (
+                  <div key={page.page} className="flex items-center gap-2 text-xs" title={page.url}>
+                    <span className="w-16 text-gray-500">{PAGE_LABELS[page.page] ?? page.page}</span>
+                    <div className="relative flex-1 h-3 bg-gray-100 rounded">
+                      <div
+                        className={`h-3 rounded ${RATING_COLORS[rateVital(vital, value)]}`}
+                        style={{ width: position(value) }}
+                      />
+                      <div className="absolute top-0 h-3 border-l border-gray-400" style={{ left: position(vital.good) }} />
+                      <div className="absolute top-0 h-3 border-l border-gray-400" style={{ left: position(vital.poor) }} />
+                    </div>
+                    <span className="w-14 text-right tabular-nums text-gray-700">{vital.format(value)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export default function RunPage() {
   const params = useParams();
   const runId = params.id as string;
   const [result, setResult] = useState<RunResult | null>(null);
-  const [polling, setPolling] = useState(true);
+  const [steps, setSteps] = useState<TimelineEvent[]>([]);
+  const [phase, setPhase] = useState<string | null>(null);
+  const [queuePosition, setQueuePosition] = useState<number | null>(null);
+  const [retry, setRetry] = useState<RetryNotice | null>(null);
+  const [currentUrl, setCurrentUrl] = useState<string | null>(null);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [streamError, setStreamError] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState(false);
 
   useEffect(() => {
-    if (!polling) return;
+    const source = new EventSource(`/api/run/${runId}/events`);
 
-    const poll = async () => {
+    const loadResult = async () => {
       try {
         const response = await fetch(`/api/run/${runId}`);
-        const data = await response.json();
-        
-        setResult(data);
-
-        if (data.status !== 'running') {
-          setPolling(false);
-        }
+        setResult(await response.json());
       } catch (error) {
-        console.error('Polling error:', error);
+        console.error('Failed to load result:', error);
       }
     };
 
-    poll();
-    const interval = setInterval(poll, 3000);
+    source.addEventListener('status', (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      setStartedAt(Date.parse(data.created_at));
+      setCurrentUrl((url) => url ?? data.store_url);
+    });
+
+    source.addEventListener('queued', (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      setQueuePosition(data.position);
+    });
+
+    source.addEventListener('retry', (e) => {
+      const data = JSON.parse((e as MessageEvent).data) as RetryNotice;
+      setRetry(data);
+      // The next attempt starts the funnel over
+      setPhase(null);
+      setSteps([]);
+    });
+
+    source.addEventListener('phase', (e) => {
+      const data = JSON.parse((e as MessageEvent).data);
+      setQueuePosition(null);
+      setPhase(data.phase);
+      if (data.url) setCurrentUrl(data.url);
+    });
+
+    source.addEventListener('timeline', (e) => {
+      const { event } = JSON.parse((e as MessageEvent).data) as { event: TimelineEvent };
+      setSteps((current) => [...current, event]);
+      setCurrentUrl(event.url);
+    });
+
+    source.addEventListener('done', () => {
+      source.close();
+      loadResult();
+    });
+
+    source.onerror = () => {
+      // EventSource reconnects on its own; a closed source means the run is gone
+      if (source.readyState === EventSource.CLOSED) {
+        setStreamError('Lost connection to the analysis. Refresh to retry.');
+      }
+    };
+
+    return () => source.close();
+  }, [runId]);
+
+  // Tick the elapsed-time counter while the run is in progress
+  useEffect(() => {
+    if (result) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(interval);
-  }, [runId, polling]);
+  }, [result]);
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    try {
+      const response = await fetch(`/api/run/${runId}/cancel`, { method: 'POST' });
+      if (!response.ok) {
+        const data = await response.json();
+        setStreamError(data.error || 'Failed to cancel analysis');
+        setCancelling(false);
+      }
+    } catch {
+      setStreamError('Failed to connect to server. Please try again.');
+      setCancelling(false);
+    }
+  };
 
   // Loading state
-  if (!result || result.status === 'running') {
+  if (!result || result.status === 'queued' || result.status === 'running') {
     return (
       <div className="min-h-screen bg-[#fafafa] px-4 py-12">
         <div className="max-w-4xl mx-auto">
@@ -77,25 +271,71 @@ export default function RunPage() {
           </Link>
           
           <div className="bg-white rounded-2xl shadow-lg p-8">
-            <h1 className="text-2xl font-semibold text-gray-900 mb-4">
-              Analysis in Progress
-            </h1>
+            <div className="flex items-center justify-between mb-4">
+              <h1 className="text-2xl font-semibold text-gray-900">
+                Analysis in Progress
+              </h1>
+              {startedAt && (
+                <span className="font-mono text-sm text-gray-500">{formatElapsed(now - startedAt)}</span>
+              )}
+            </div>
             
             <div className="flex items-center gap-3 mb-6">
               <div className="animate-spin h-5 w-5 border-2 border-[#f97316] border-t-transparent rounded-full" />
-              <span className="text-gray-600">AI agent is analyzing your store...</span>
+              <span className="text-gray-600">
+                {phase ? PHASE_LABELS[phase] ?? phase
+                  : queuePosition !== null ? `Waiting for a free browser (position ${queuePosition} in queue)`
+                  : 'AI agent is analyzing your store...'}
+              </span>
             </div>
 
-            <div className="bg-gray-50 rounded-lg p-4 mb-6">
-              <p className="text-sm text-gray-500 mb-1">Run ID</p>
-              <p className="font-mono text-sm text-gray-800">{runId}</p>
+            {retry && (
+              <p className="text-sm text-yellow-700 bg-yellow-50 rounded-lg px-4 py-3 mb-6">
+                Attempt {retry.attempt} failed ({retry.error}). Trying again at {new Date(retry.next_attempt_at).toLocaleTimeString()}.
+              </p>
+            )}
+
+            <div className="bg-gray-50 rounded-lg p-4 mb-6 space-y-3">
+              <div>
+                <p className="text-sm text-gray-500 mb-1">Run ID</p>
+                <p className="font-mono text-sm text-gray-800">{runId}</p>
+              </div>
+              {currentUrl && (
+                <div>
+                  <p className="text-sm text-gray-500 mb-1">Current URL</p>
+                  <p className="font-mono text-sm text-gray-800 break-all">{currentUrl}</p>
+                </div>
+              )}
             </div>
 
-            <div className="space-y-3 text-sm text-gray-500">
-              <p>🔍 Navigating to your store</p>
-              <p>🛒 Finding products and testing add-to-cart</p>
-              <p>💳 Attempting checkout flow</p>
-              <p>📊 Generating UX analysis report</p>
+            {streamError && (
+              <p className="text-sm text-red-500 mb-4">{streamError}</p>
+            )}
+
+            <button
+              onClick={handleCancel}
+              disabled={cancelling}
+              className="text-sm text-gray-500 hover:text-red-600 disabled:text-gray-300 mb-6"
+            >
+              {cancelling ? 'Cancelling…' : 'Cancel analysis'}
+            </button>
+
+            <div className="space-y-3">
+              {steps.length === 0 ? (
+                <p className="text-sm text-gray-500">Waiting for the first step...</p>
+              ) : (
+                steps.map((event, index) => (
+                  <div key={index} className="flex items-start gap-3">
+                    <div className={`w-2 h-2 rounded-full mt-2 ${event.success ? 'bg-green-500' : 'bg-red-500'}`} />
+                    <div>
+                      <p className="text-gray-900 text-sm">{event.action}</p>
+                      <p className="text-gray-400 text-xs">
+                        {startedAt ? `+${formatElapsed(Date.parse(event.timestamp) - startedAt)}` : new Date(event.timestamp).toLocaleTimeString()}
+                      </p>
+                    </div>
+                  </div>
+                ))
+              )}
             </div>
           </div>
         </div>
@@ -104,7 +344,7 @@ export default function RunPage() {
   }
 
   // Error state
-  if (result.status === 'failed' && result.error) {
+  if ((result.status === 'failed' || result.status === 'cancelled') && result.error) {
     return (
       <div className="min-h-screen bg-[#fafafa] px-4 py-12">
         <div className="max-w-4xl mx-auto">
@@ -114,7 +354,7 @@ export default function RunPage() {
           
           <div className="bg-white rounded-2xl shadow-lg p-8">
             <h1 className="text-2xl font-semibold text-red-600 mb-4">
-              Analysis Failed
+              {result.status === 'cancelled' ? 'Analysis Cancelled' : 'Analysis Failed'}
             </h1>
             <p className="text-gray-600 mb-4">{result.error}</p>
             <Link
@@ -130,7 +370,8 @@ export default function RunPage() {
   }
 
   // Results
-  const { score, metrics, findings, timeline, session_url, store_url } = result;
+  const { score, score_breakdown, metrics, findings, timeline, session_url, store_url, device, performance } = result;
+  const { positive, issues } = groupFindings(findings ?? []);
 
   return (
     <div className="min-h-screen bg-[#fafafa] px-4 py-12">
@@ -147,6 +388,9 @@ export default function RunPage() {
                 Analysis Complete
               </h1>
               <p className="text-gray-500">{store_url}</p>
+              {device && DEVICE_LABELS[device] && (
+                <p className="text-gray-400 text-sm">Mobile run · {DEVICE_LABELS[device]}</p>
+              )}
             </div>
             <div className="text-right">
               <div className={`text-5xl font-bold ${
@@ -159,16 +403,47 @@ export default function RunPage() {
             </div>
           </div>
 
-          {session_url && (
-            <a
-              href={session_url}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-[#f97316] hover:underline text-sm"
-            >
-              View session recording →
-            </a>
+          {score_breakdown && (
+            <div className="border-t border-gray-100 pt-4 mb-4 text-sm space-y-1">
+              <h2 className="font-medium text-gray-900 mb-2">How this score was calculated</h2>
+              {score_breakdown.funnel.map((item) => (
+                <ScoreRow key={item.label} label={item.label} points={item.points} muted={item.points === 0} />
+              ))}
+              <ScoreRow label="UX quality" points={score_breakdown.ux_base} />
+              {score_breakdown.deductions.map((item) => (
+                <ScoreRow key={item.finding_id ?? item.label} label={item.label} points={item.points} />
+              ))}
+              {score_breakdown.ux_base + score_breakdown.deductions.reduce((sum, item) => sum + item.points, 0) < 0 && (
+                <p className="text-gray-400">UX quality points cannot go below 0</p>
+              )}
+              <div className="flex justify-between border-t border-gray-100 pt-2 font-semibold text-gray-900">
+                <span>Total</span>
+                <span className="tabular-nums">{score_breakdown.total}</span>
+              </div>
+            </div>
           )}
+
+          <div className="flex flex-wrap gap-4">
+            {session_url && (
+              <a
+                href={session_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-[#f97316] hover:underline text-sm"
+              >
+                View session recording →
+              </a>
+            )}
+            <a href={`/api/run/${runId}/report.pdf`} className="text-[#f97316] hover:underline text-sm">
+              Download PDF report
+            </a>
+            <a href={`/api/run/${runId}/report.html?download=1`} className="text-[#f97316] hover:underline text-sm">
+              Download HTML report
+            </a>
+            <a href={`/api/run/${runId}/findings.csv`} className="text-[#f97316] hover:underline text-sm">
+              Findings CSV
+            </a>
+          </div>
         </div>
 
         {/* Metrics */}
@@ -209,17 +484,28 @@ export default function RunPage() {
           </div>
         </div>
 
+        {/* Page performance */}
+        {performance && performance.pages.length > 0 && (
+          <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-1">Page Performance</h2>
+            <p className="text-gray-500 text-sm mb-4">
+              Core Web Vitals of each page the shopper reached. Green is good, yellow needs improvement, red is poor.
+            </p>
+            <PerformanceCharts pages={performance.pages} />
+          </div>
+        )}
+
         {/* Findings - Grouped by category */}
         {findings && findings.length > 0 && (
           <div className="space-y-6 mb-6">
             {/* Positive findings first */}
-            {findings.filter(f => f.category === 'positive').length > 0 && (
+            {positive.length > 0 && (
               <div className="bg-white rounded-2xl shadow-lg p-6">
                 <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
                   <span className="text-green-500">✓</span> What&apos;s Working Well
                 </h2>
                 <div className="space-y-3">
-                  {findings.filter(f => f.category === 'positive').map((finding) => (
+                  {positive.map((finding) => (
                     <div
                       key={finding.id}
                       className="p-4 rounded-lg bg-green-50 border-l-4 border-green-500"
@@ -233,46 +519,52 @@ export default function RunPage() {
             )}
 
             {/* Issues and Suggestions */}
-            {findings.filter(f => f.category !== 'positive').length > 0 && (
+            {issues.length > 0 && (
               <div className="bg-white rounded-2xl shadow-lg p-6">
                 <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center gap-2">
                   <span className="text-orange-500">⚡</span> Issues & Recommendations
                 </h2>
                 <div className="space-y-4">
                   {/* Critical issues first, then warnings, then suggestions */}
-                  {['critical', 'warning', 'suggestion'].map(category => 
-                    findings
-                      .filter(f => f.category === category)
-                      .map((finding) => (
-                        <div
-                          key={finding.id}
-                          className={`p-4 rounded-lg border-l-4 ${
-                            finding.category === 'critical' ? 'bg-red-50 border-red-500' :
-                            finding.category === 'warning' ? 'bg-yellow-50 border-yellow-500' :
-                            'bg-blue-50 border-blue-500'
-                          }`}
-                        >
-                          <div className="flex items-start justify-between">
-                            <div>
-                              <span className={`text-xs font-medium uppercase ${
-                                finding.category === 'critical' ? 'text-red-600' :
-                                finding.category === 'warning' ? 'text-yellow-600' :
-                                'text-blue-600'
-                              }`}>
-                                {finding.category === 'suggestion' ? 'optimization' : finding.category}
-                              </span>
-                              <h3 className="font-medium text-gray-900 mt-1">{finding.title}</h3>
-                              <p className="text-gray-600 text-sm mt-1">{finding.description}</p>
-                            </div>
-                          </div>
-                          <div className="mt-3 pt-3 border-t border-gray-200">
-                            <p className="text-sm text-gray-500">
-                              <span className="font-medium">Recommendation:</span> {finding.recommendation}
-                            </p>
-                          </div>
+                  {issues.map((finding) => (
+                    <div
+                      key={finding.id}
+                      className={`p-4 rounded-lg border-l-4 ${
+                        finding.category === 'critical' ? 'bg-red-50 border-red-500' :
+                        finding.category === 'warning' ? 'bg-yellow-50 border-yellow-500' :
+                        'bg-blue-50 border-blue-500'
+                      }`}
+                    >
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <span className={`text-xs font-medium uppercase ${
+                            finding.category === 'critical' ? 'text-red-600' :
+                            finding.category === 'warning' ? 'text-yellow-600' :
+                            'text-blue-600'
+                          }`}>
+                            {CATEGORY_LABELS[finding.category]}
+                          </span>
+                          <h3 className="font-medium text-gray-900 mt-1">{finding.title}</h3>
+                          <p className="text-gray-600 text-sm mt-1">{finding.description}</p>
                         </div>
-                      ))
-                  )}
+                      </div>
+                      <div className="mt-3 pt-3 border-t border-gray-200">
+                        <p className="text-sm text-gray-500">
+                          <span className="font-medium">Recommendation:</span> {finding.recommendation}
+                        </p>
+                        {finding.screenshot && (
+                          <a
+                            href={finding.screenshot}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-[#f97316] hover:underline text-sm mt-2 inline-block"
+                          >
+                            View screenshot →
+                          </a>
+                        )}
+                      </div>
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
@@ -293,6 +585,18 @@ export default function RunPage() {
                     <p className="text-gray-400 text-xs">
                       {new Date(event.timestamp).toLocaleTimeString()}
                     </p>
+                    {event.screenshot && (
+                      <a href={event.screenshot} target="_blank" rel="noopener noreferrer">
+                        <Image
+                          src={event.screenshot}
+                          alt={`Screenshot: ${event.action}`}
+                          width={240}
+                          height={150}
+                          unoptimized
+                          className="mt-2 rounded border border-gray-200 object-cover object-top"
+                        />
+                      </a>
+                    )}
                   </div>
                 </div>
               ))}
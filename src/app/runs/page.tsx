@@ -0,0 +1,232 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface RunSummary {
+  run_id: string;
+  store_url: string;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  created_at: string;
+  completed_at: string | null;
+  score: number | null;
+  drop_off_step: string | null;
+  finding_counts: {
+    critical: number;
+    warning: number;
+    suggestion: number;
+    positive: number;
+  };
+}
+
+interface RunListResponse {
+  runs: RunSummary[];
+  total: number;
+  page: number;
+  page_size: number;
+}
+
+const PAGE_SIZE = 20;
+
+export default function RunsPage() {
+  const [storeUrl, setStoreUrl] = useState('');
+  const [status, setStatus] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<RunListResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<RunSummary[]>([]);
+
+  useEffect(() => {
+    const query = new URLSearchParams({ page: String(page), page_size: String(PAGE_SIZE) });
+    if (storeUrl) query.set('store_url', storeUrl);
+    if (status) query.set('status', status);
+    if (from) query.set('from', from);
+    if (to) query.set('to', to);
+
+    const load = async () => {
+      try {
+        const response = await fetch(`/api/runs?${query}`);
+        const body = await response.json();
+
+        if (!response.ok) {
+          setError(body.error || 'Failed to load runs');
+          return;
+        }
+
+        setError(null);
+        setData(body);
+      } catch {
+        setError('Failed to connect to server. Please try again.');
+      }
+    };
+
+    load();
+  }, [storeUrl, status, from, to, page]);
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / PAGE_SIZE)) : 1;
+
+  // Keep at most two runs selected; the oldest becomes the comparison baseline
+  const toggleSelected = (run: RunSummary) => {
+    setSelected((current) =>
+      current.some(r => r.run_id === run.run_id)
+        ? current.filter(r => r.run_id !== run.run_id)
+        : [...current, run].slice(-2)
+    );
+  };
+  const [baseline, latest] = [...selected].sort((x, y) => x.created_at.localeCompare(y.created_at));
+
+  return (
+    <div className="min-h-screen bg-[#fafafa] px-4 py-12">
+      <div className="max-w-5xl mx-auto">
+        <Link href="/" className="text-[#f97316] hover:underline text-sm mb-6 inline-block">
+          ← Back to home
+        </Link>
+
+        <div className="bg-white rounded-2xl shadow-lg p-8 mb-6">
+          <h1 className="text-2xl font-semibold text-gray-900 mb-6">Run History</h1>
+
+          {/* Filters */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <input
+              type="text"
+              placeholder="Store URL"
+              value={storeUrl}
+              onChange={(e) => { setStoreUrl(e.target.value); setPage(1); }}
+              className="border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-[#f97316]"
+            />
+            <select
+              value={status}
+              onChange={(e) => { setStatus(e.target.value); setPage(1); }}
+              className="border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-[#f97316]"
+            >
+              <option value="">All statuses</option>
+              <option value="queued">Queued</option>
+              <option value="running">Running</option>
+              <option value="completed">Completed</option>
+              <option value="failed">Failed</option>
+              <option value="cancelled">Cancelled</option>
+            </select>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => { setFrom(e.target.value); setPage(1); }}
+              className="border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-[#f97316]"
+            />
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => { setTo(e.target.value); setPage(1); }}
+              className="border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-[#f97316]"
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-500 mt-3">{error}</p>
+          )}
+
+          {selected.length === 2 && (
+            <Link
+              href={`/compare?a=${baseline.run_id}&b=${latest.run_id}`}
+              className="inline-block mt-4 bg-[#f97316] text-white text-sm px-5 py-2 rounded-full hover:bg-[#ea580c] transition"
+            >
+              Compare selected runs
+            </Link>
+          )}
+        </div>
+
+        {/* Runs table */}
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          {!data ? (
+            <div className="flex items-center gap-3">
+              <div className="animate-spin h-5 w-5 border-2 border-[#f97316] border-t-transparent rounded-full" />
+              <span className="text-gray-600">Loading runs...</span>
+            </div>
+          ) : data.runs.length === 0 ? (
+            <p className="text-gray-500">No runs match these filters.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 w-8" />
+                  <th className="py-2 font-medium">Store</th>
+                  <th className="py-2 font-medium">Date</th>
+                  <th className="py-2 font-medium">Score</th>
+                  <th className="py-2 font-medium">Drop-off Step</th>
+                  <th className="py-2 font-medium" title="Critical / Warning / Optimization / Positive">Findings</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.runs.map((run) => (
+                  <tr key={run.run_id} className="border-b border-gray-100 last:border-0">
+                    <td className="py-3">
+                      <input
+                        type="checkbox"
+                        aria-label="Select for comparison"
+                        checked={selected.some(r => r.run_id === run.run_id)}
+                        disabled={run.status === 'queued' || run.status === 'running'}
+                        onChange={() => toggleSelected(run)}
+                        className="accent-[#f97316]"
+                      />
+                    </td>
+                    <td className="py-3">
+                      <Link href={`/run/${run.run_id}`} className="text-gray-900 hover:text-[#f97316]">
+                        {run.store_url}
+                      </Link>
+                    </td>
+                    <td className="py-3 text-gray-500">
+                      {new Date(run.created_at).toLocaleString()}
+                    </td>
+                    <td className="py-3">
+                      {run.status === 'queued' || run.status === 'running' ? (
+                        <span className="text-gray-400">{run.status === 'queued' ? 'Queued' : 'Running…'}</span>
+                      ) : (
+                        <span className={`font-semibold ${
+                          (run.score ?? 0) >= 70 ? 'text-green-500' :
+                          (run.score ?? 0) >= 40 ? 'text-yellow-500' : 'text-red-500'
+                        }`}>
+                          {run.score ?? '-'}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 text-gray-700">{run.drop_off_step ?? 'None'}</td>
+                    <td className="py-3">
+                      <span className="text-red-600">{run.finding_counts.critical}</span>
+                      {' / '}
+                      <span className="text-yellow-600">{run.finding_counts.warning}</span>
+                      {' / '}
+                      <span className="text-blue-600">{run.finding_counts.suggestion}</span>
+                      {' / '}
+                      <span className="text-green-600">{run.finding_counts.positive}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {data && data.total > PAGE_SIZE && (
+            <div className="flex items-center justify-between mt-4 text-sm">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page <= 1}
+                className="text-[#f97316] hover:underline disabled:text-gray-300 disabled:no-underline"
+              >
+                ← Previous
+              </button>
+              <span className="text-gray-500">Page {page} of {totalPages}</span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= totalPages}
+                className="text-[#f97316] hover:underline disabled:text-gray-300 disabled:no-underline"
+              >
+                Next →
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface ScheduleAlert {
+  at: string;
+  run_id: string;
+  score_delta: number;
+  lost_metrics: { metric: string }[];
+  delivered: boolean;
+}
+
+interface Schedule {
+  schedule_id: string;
+  store_url: string;
+  cron: string;
+  webhook_url: string | null;
+  score_drop_threshold: number;
+  next_run_at: string;
+  last_run_id: string | null;
+  last_run_at: string | null;
+  last_alert: ScheduleAlert | null;
+}
+
+const CRON_PRESETS = [
+  { label: 'Daily at 03:00', cron: '0 3 * * *' },
+  { label: 'Every 6 hours', cron: '0 */6 * * *' },
+  { label: 'Hourly', cron: '0 * * * *' },
+  { label: 'Weekdays at 09:00', cron: '0 9 * * 1-5' },
+];
+
+const METRIC_LABELS: Record<string, string> = {
+  add_to_cart_success: 'add to cart',
+  checkout_reached: 'checkout reached',
+  checkout_form_filled: 'form filled',
+};
+
+function describeAlert(alert: ScheduleAlert) {
+  const reasons = alert.lost_metrics.map(({ metric }) => `lost ${METRIC_LABELS[metric] ?? metric}`);
+  if (alert.score_delta < 0) {
+    reasons.unshift(`score ${alert.score_delta}`);
+  }
+  return reasons.join(', ');
+}
+
+export default function SchedulesPage() {
+  const [storeUrl, setStoreUrl] = useState('');
+  const [cron, setCron] = useState(CRON_PRESETS[0].cron);
+  const [webhookUrl, setWebhookUrl] = useState('');
+  const [threshold, setThreshold] = useState('10');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [schedules, setSchedules] = useState<Schedule[] | null>(null);
+
+  const load = async () => {
+    try {
+      const response = await fetch('/api/schedules');
+      const data = await response.json();
+      if (response.ok) {
+        setSchedules(data.schedules);
+      }
+    } catch {
+      // The form still works without the list
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    let url = storeUrl.trim();
+    if (!url.startsWith('http://') && !url.startsWith('https://')) {
+      url = 'https://' + url;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const response = await fetch('/api/schedules', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          store_url: url,
+          cron,
+          webhook_url: webhookUrl.trim() || undefined,
+          score_drop_threshold: Number(threshold),
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to create schedule');
+        return;
+      }
+
+      setStoreUrl('');
+      await load();
+    } catch {
+      setError('Failed to connect to server. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (scheduleId: string) => {
+    try {
+      await fetch(`/api/schedules/${scheduleId}`, { method: 'DELETE' });
+      await load();
+    } catch {
+      setError('Failed to connect to server. Please try again.');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#fafafa] px-4 py-12">
+      <div className="max-w-5xl mx-auto">
+        <Link href="/" className="text-[#f97316] hover:underline text-sm mb-6 inline-block">
+          ← Back to home
+        </Link>
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-lg p-8 mb-6">
+          <h1 className="text-2xl font-semibold text-gray-900 mb-2">Scheduled Audits</h1>
+          <p className="text-gray-500 text-sm mb-6">
+            Audit a store on a schedule and get an alert when its score drops or a funnel step stops working.
+          </p>
+
+          <input
+            type="text"
+            value={storeUrl}
+            onChange={(e) => setStoreUrl(e.target.value)}
+            placeholder="your-store.com"
+            disabled={isSubmitting}
+            className="w-full border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-[#f97316] mb-3"
+          />
+
+          <div className="flex flex-wrap items-center gap-3 mb-3">
+            <select
+              value={CRON_PRESETS.some(preset => preset.cron === cron) ? cron : ''}
+              onChange={(e) => e.target.value && setCron(e.target.value)}
+              disabled={isSubmitting}
+              className="border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-[#f97316]"
+            >
+              {CRON_PRESETS.map(preset => (
+                <option key={preset.cron} value={preset.cron}>{preset.label}</option>
+              ))}
+              <option value="">Custom</option>
+            </select>
+            <input
+              type="text"
+              value={cron}
+              onChange={(e) => setCron(e.target.value)}
+              aria-label="Cron expression"
+              disabled={isSubmitting}
+              className="w-36 border border-gray-200 rounded-lg px-3 py-2 text-sm font-mono outline-none focus:border-[#f97316]"
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              Alert on a drop of
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                disabled={isSubmitting}
+                className="w-16 border border-gray-200 rounded-lg px-2 py-2 text-sm outline-none focus:border-[#f97316]"
+              />
+              points
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="url"
+              value={webhookUrl}
+              onChange={(e) => setWebhookUrl(e.target.value)}
+              placeholder="Alert webhook URL (optional)"
+              disabled={isSubmitting}
+              className="flex-1 min-w-64 border border-gray-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-[#f97316]"
+            />
+            <button
+              type="submit"
+              disabled={isSubmitting || !storeUrl.trim()}
+              className="bg-[#f97316] hover:bg-[#ea580c] disabled:bg-[#fdba74] text-white text-sm font-medium px-6 py-2.5 rounded-full transition-colors"
+            >
+              {isSubmitting ? 'Saving…' : 'Add Schedule'}
+            </button>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-500 mt-3">{error}</p>
+          )}
+        </form>
+
+        <div className="bg-white rounded-2xl shadow-lg p-6">
+          {!schedules ? (
+            <p className="text-gray-500 text-sm">Loading…</p>
+          ) : schedules.length === 0 ? (
+            <p className="text-gray-500 text-sm">No schedules yet.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 font-medium">Store</th>
+                  <th className="py-2 font-medium">Schedule</th>
+                  <th className="py-2 font-medium">Next Run</th>
+                  <th className="py-2 font-medium">Last Run</th>
+                  <th className="py-2 font-medium">Last Alert</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {schedules.map((schedule) => (
+                  <tr key={schedule.schedule_id} className="border-b border-gray-100 last:border-0 align-top">
+                    <td className="py-3 text-gray-900">{schedule.store_url}</td>
+                    <td className="py-3 font-mono text-gray-700">{schedule.cron}</td>
+                    <td className="py-3 text-gray-500">{new Date(schedule.next_run_at).toLocaleString()}</td>
+                    <td className="py-3">
+                      {schedule.last_run_id && schedule.last_run_at ? (
+                        <Link href={`/run/${schedule.last_run_id}`} className="text-gray-700 hover:text-[#f97316]">
+                          {new Date(schedule.last_run_at).toLocaleString()}
+                        </Link>
+                      ) : (
+                        <span className="text-gray-400">Not yet</span>
+                      )}
+                    </td>
+                    <td className="py-3">
+                      {schedule.last_alert ? (
+                        <Link href={`/run/${schedule.last_alert.run_id}`} className="text-red-600 hover:underline">
+                          {describeAlert(schedule.last_alert)}
+                        </Link>
+                      ) : (
+                        <span className="text-gray-400">None</span>
+                      )}
+                    </td>
+                    <td className="py-3 text-right">
+                      <button
+                        onClick={() => handleDelete(schedule.schedule_id)}
+                        className="text-gray-400 hover:text-red-600"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
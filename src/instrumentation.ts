@@ -0,0 +1,12 @@
+// Runs once when the Next.js server starts
+export async function register() {
+  // Scheduled audits drive a browser, so only the Node.js runtime runs them
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Runs queued or executing when the server stopped, before new ones arrive
+    const { recoverRuns } = await import('@/lib/run-queue');
+    await recoverRuns().catch(error => console.error('Run recovery failed:', error));
+
+    const { getScheduler } = await import('@/lib/schedules');
+    getScheduler().start();
+  }
+}
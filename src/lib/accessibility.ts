@@ -0,0 +1,145 @@
+import type { Page } from 'playwright';
+import type { AxeResults, ImpactValue, RunOptions as AxeRunOptions } from 'axe-core';
+import type { Finding } from '@/lib/agent';
+import type { RunContext } from '@/lib/pipeline';
+
+// Funnel pages scanned with axe-core, each as the shopper reaches it
+export type AuditedPage = 'homepage' | 'product' | 'cart' | 'checkout';
+
+export const AUDITED_PAGE_LABELS: Record<AuditedPage, string> = {
+  homepage: 'Homepage',
+  product: 'Product page',
+  cart: 'Cart',
+  checkout: 'Checkout',
+};
+
+// WCAG 2.x level A and AA rules; axe's best-practice rules are left out
+const WCAG_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'wcag22aa'];
+
+// Elements listed per page in a finding's evidence
+const MAX_SELECTORS = 5;
+
+type Impact = NonNullable<ImpactValue>;
+
+const IMPACT_CATEGORIES: Record<Impact, Finding['category']> = {
+  critical: 'critical',
+  serious: 'warning',
+  moderate: 'suggestion',
+  minor: 'suggestion',
+};
+
+export interface AxeViolation {
+  // axe rule id, e.g. "color-contrast"
+  rule: string;
+  impact: Impact;
+  help: string;
+  description: string;
+  helpUrl: string;
+  // Success criteria, e.g. "1.4.3", and the lowest level, e.g. "AA"
+  criteria: string[];
+  level: 'A' | 'AA' | null;
+  // CSS selectors of the offending elements
+  selectors: string[];
+}
+
+// Runs axe-core in the page. The library is injected on first use and stays
+// until the next navigation. Frames are not scanned: card fields usually live
+// in a payment provider's iframe the store does not control.
+export async function scanAccessibility(page: Page): Promise<AxeViolation[]> {
+  const injected = await page.evaluate(() => 'axe' in window);
+  if (!injected) {
+    const { default: axe } = await import('axe-core');
+    await page.evaluate(axe.source);
+  }
+
+  const options: AxeRunOptions = {
+    runOnly: { type: 'tag', values: WCAG_TAGS },
+    resultTypes: ['violations'],
+    iframes: false,
+  };
+  const results = await page.evaluate((runOptions) => {
+    const { axe } = window as unknown as { axe: { run(context: Document, options: unknown): Promise<AxeResults> } };
+    return axe.run(document, runOptions).then(({ violations }) => violations.map(violation => ({
+      id: violation.id,
+      impact: violation.impact ?? null,
+      help: violation.help,
+      description: violation.description,
+      helpUrl: violation.helpUrl,
+      tags: violation.tags,
+      targets: violation.nodes.map(node => node.target.map(String).join(' ')),
+    })));
+  }, options);
+
+  return results.map(result => ({
+    rule: result.id,
+    impact: result.impact ?? 'minor',
+    help: result.help,
+    description: result.description,
+    helpUrl: result.helpUrl,
+    // "wcag143" is success criterion 1.4.3
+    criteria: result.tags
+      .map(tag => /^wcag(\d)(\d)(\d+)$/.exec(tag))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(([, principle, guideline, criterion]) => `${principle}.${guideline}.${criterion}`),
+    level: result.tags.some(tag => /^wcag2\d?a$/.test(tag)) ? 'A'
+      : result.tags.some(tag => /^wcag2\d?aa$/.test(tag)) ? 'AA'
+      : null,
+    selectors: result.targets,
+  }));
+}
+
+function pageEvidence(page: AuditedPage, violation: AxeViolation): string {
+  const { selectors } = violation;
+  const shown = selectors.slice(0, MAX_SELECTORS).join(', ');
+  const more = selectors.length > MAX_SELECTORS ? ` and ${selectors.length - MAX_SELECTORS} more` : '';
+  return `${AUDITED_PAGE_LABELS[page]}: ${shown}${more}`;
+}
+
+// One finding per axe rule, id "a11y-<rule>", so runs compare rule by rule.
+// A rule already reported on an earlier page gets this page added to its
+// evidence instead of a second finding.
+export function addAccessibilityFindings(findings: Finding[], page: AuditedPage, violations: AxeViolation[]): void {
+  for (const violation of violations) {
+    const id = `a11y-${violation.rule}`;
+    const existing = findings.find(finding => finding.id === id);
+    if (existing) {
+      existing.evidence += `; ${pageEvidence(page, violation)}`;
+      continue;
+    }
+
+    const wcag = violation.criteria.length > 0
+      ? `WCAG ${violation.criteria.join(', ')}${violation.level ? ` (level ${violation.level})` : ''}`
+      : 'WCAG';
+    findings.push({
+      id,
+      category: IMPACT_CATEGORIES[violation.impact],
+      title: `Accessibility: ${violation.help}`,
+      description: violation.description,
+      evidence: `${wcag}, axe rule ${violation.rule}, impact ${violation.impact}. ${pageEvidence(page, violation)}`,
+      recommendation: `${violation.help}. See ${violation.helpUrl}`,
+    });
+  }
+}
+
+// Scans the page the step has just reached and records what axe found.
+// Observational: a failed scan is logged and the run goes on.
+export async function auditAccessibility(context: RunContext, page: AuditedPage): Promise<void> {
+  if (!context.accessibility) {
+    return;
+  }
+
+  try {
+    const violations = await scanAccessibility(context.page);
+    console.log(`Accessibility violations on ${AUDITED_PAGE_LABELS[page]}:`, violations.map(violation => violation.rule));
+    addAccessibilityFindings(context.findings, page, violations);
+
+    context.recordEvent({
+      timestamp: new Date().toISOString(),
+      action: `Scanned ${AUDITED_PAGE_LABELS[page].toLowerCase()} for accessibility issues`,
+      url: context.page.url(),
+      success: true,
+    });
+  } catch (error) {
+    console.log(`Accessibility scan of ${AUDITED_PAGE_LABELS[page].toLowerCase()} failed:`, error);
+  }
+}
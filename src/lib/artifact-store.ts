@@ -0,0 +1,76 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Binary files a run produces (screenshots), kept next to the run record and
+// served from /api/run/<id>/artifacts/<name>.
+export interface ArtifactStore {
+  put(runId: string, name: string, data: Buffer): Promise<void>;
+  // Null when the run or artifact does not exist
+  get(runId: string, name: string): Promise<Buffer | null>;
+}
+
+// Run IDs and every path segment of a name must be plain file names, so
+// nothing can escape the storage directory
+const SEGMENT = /^[a-zA-Z0-9][a-zA-Z0-9._-]*$/;
+
+export function isValidArtifactPath(runId: string, name: string): boolean {
+  return /^[a-zA-Z0-9-]+$/.test(runId) && name.split('/').every(segment => SEGMENT.test(segment));
+}
+
+export function artifactUrl(runId: string, name: string): string {
+  return `/api/run/${runId}/artifacts/${name}`;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.json': 'application/json',
+};
+
+export function artifactContentType(name: string): string {
+  return CONTENT_TYPES[path.extname(name).toLowerCase()] ?? 'application/octet-stream';
+}
+
+export class FileArtifactStore implements ArtifactStore {
+  constructor(private readonly dir: string) {}
+
+  async put(runId: string, name: string, data: Buffer): Promise<void> {
+    const target = this.filePath(runId, name);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(target, data);
+  }
+
+  async get(runId: string, name: string): Promise<Buffer | null> {
+    if (!isValidArtifactPath(runId, name)) {
+      return null;
+    }
+    try {
+      return await fs.readFile(this.filePath(runId, name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private filePath(runId: string, name: string): string {
+    if (!isValidArtifactPath(runId, name)) {
+      throw new Error(`Invalid artifact path: ${runId}/${name}`);
+    }
+    return path.join(this.dir, runId, ...name.split('/'));
+  }
+}
+
+// Keep a single instance across Next.js hot reloads
+const globalForArtifacts = globalThis as unknown as { artifactStore?: ArtifactStore };
+
+export function getArtifactStore(): ArtifactStore {
+  if (!globalForArtifacts.artifactStore) {
+    globalForArtifacts.artifactStore = new FileArtifactStore(
+      process.env.ARTIFACT_STORE_DIR || path.join(process.cwd(), '.data', 'artifacts')
+    );
+  }
+  return globalForArtifacts.artifactStore;
+}
@@ -0,0 +1,163 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { RunSettings } from '@/lib/run-launcher';
+
+export interface BatchItem {
+  store_url: string;
+  // Null until the batch gets to this store
+  run_id: string | null;
+}
+
+export interface BatchRecord {
+  batch_id: string;
+  created_at: string;
+  // Most runs of this batch executing at once
+  concurrency: number;
+  // Settings every run of the batch is started with
+  options: RunSettings;
+  items: BatchItem[];
+}
+
+export interface BatchRepository {
+  create(record: BatchRecord): Promise<void>;
+  get(batchId: string): Promise<BatchRecord | null>;
+  // Newest first
+  list(): Promise<BatchRecord[]>;
+  setRunId(batchId: string, index: number, runId: string): Promise<void>;
+}
+
+// Batch IDs are UUIDs; reject anything that could escape the storage directory
+function isValidBatchId(batchId: string): boolean {
+  return /^[a-zA-Z0-9-]+$/.test(batchId);
+}
+
+function newestFirst(records: BatchRecord[]): BatchRecord[] {
+  return records.sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+export class MemoryBatchRepository implements BatchRepository {
+  private records = new Map<string, BatchRecord>();
+
+  async create(record: BatchRecord): Promise<void> {
+    this.records.set(record.batch_id, record);
+  }
+
+  async get(batchId: string): Promise<BatchRecord | null> {
+    return this.records.get(batchId) ?? null;
+  }
+
+  async list(): Promise<BatchRecord[]> {
+    return newestFirst([...this.records.values()]);
+  }
+
+  async setRunId(batchId: string, index: number, runId: string): Promise<void> {
+    const record = this.records.get(batchId);
+    if (!record) {
+      throw new Error(`Batch not found: ${batchId}`);
+    }
+    record.items[index].run_id = runId;
+  }
+}
+
+// Stores each batch as <dir>/<batch_id>.json, written through a temp file
+// and a rename like run records.
+export class FileBatchRepository implements BatchRepository {
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly dir: string) {}
+
+  async create(record: BatchRecord): Promise<void> {
+    await this.withLock(record.batch_id, () => this.write(record));
+  }
+
+  async get(batchId: string): Promise<BatchRecord | null> {
+    return this.read(batchId);
+  }
+
+  async list(): Promise<BatchRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => this.read(file.slice(0, -'.json'.length)))
+    );
+    return newestFirst(records.filter((record): record is BatchRecord => record !== null));
+  }
+
+  async setRunId(batchId: string, index: number, runId: string): Promise<void> {
+    await this.withLock(batchId, async () => {
+      const record = await this.read(batchId);
+      if (!record) {
+        throw new Error(`Batch not found: ${batchId}`);
+      }
+      record.items[index].run_id = runId;
+      await this.write(record);
+    });
+  }
+
+  private filePath(batchId: string): string {
+    if (!isValidBatchId(batchId)) {
+      throw new Error(`Invalid batch ID: ${batchId}`);
+    }
+    return path.join(this.dir, `${batchId}.json`);
+  }
+
+  private async read(batchId: string): Promise<BatchRecord | null> {
+    if (!isValidBatchId(batchId)) {
+      return null;
+    }
+    try {
+      const raw = await fs.readFile(this.filePath(batchId), 'utf8');
+      return JSON.parse(raw) as BatchRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async write(record: BatchRecord): Promise<void> {
+    const target = this.filePath(record.batch_id);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(tmp, JSON.stringify(record, null, 2), 'utf8');
+    await fs.rename(tmp, target);
+  }
+
+  // Serialize read-modify-write cycles per batch within this process
+  private async withLock<T>(batchId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(batchId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(fn);
+    this.locks.set(batchId, next);
+    try {
+      return await next;
+    } finally {
+      if (this.locks.get(batchId) === next) {
+        this.locks.delete(batchId);
+      }
+    }
+  }
+}
+
+// Keep a single instance across Next.js hot reloads
+const globalForBatches = globalThis as unknown as { batchRepository?: BatchRepository };
+
+// Follows RUN_STORE, so batches live wherever their runs do
+export function getBatchRepository(): BatchRepository {
+  if (!globalForBatches.batchRepository) {
+    globalForBatches.batchRepository = process.env.RUN_STORE === 'memory'
+      ? new MemoryBatchRepository()
+      : new FileBatchRepository(process.env.BATCH_STORE_DIR || path.join(process.cwd(), '.data', 'batches'));
+  }
+  return globalForBatches.batchRepository;
+}
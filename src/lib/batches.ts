@@ -0,0 +1,300 @@
+import { randomUUID } from 'crypto';
+import { BatchRecord, getBatchRepository } from '@/lib/batch-repository';
+import { toCsv } from '@/lib/csv';
+import { launchRun } from '@/lib/run-launcher';
+import { getRunRepository, normalizeStoreUrl, RunRecord, RunStatus } from '@/lib/run-repository';
+
+export const MAX_BATCH_SIZE = 500;
+export const MAX_BATCH_CONCURRENCY = 10;
+const DEFAULT_BATCH_CONCURRENCY = 3;
+
+export function getBatchConcurrency(): number {
+  const configured = Number(process.env.BATCH_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0
+    ? Math.min(configured, MAX_BATCH_CONCURRENCY)
+    : DEFAULT_BATCH_CONCURRENCY;
+}
+
+export interface StoreList {
+  urls: string[];
+  // Entries that are not URLs, as given
+  invalid: string[];
+}
+
+// Splits one CSV line into cells, honouring double-quoted cells
+function csvCells(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+const URL_COLUMNS = ['store_url', 'url', 'website', 'domain', 'store'];
+
+// A CSV with a store_url (or url, website, domain) column, or a plain list
+// with one URL per line
+export function csvStoreEntries(text: string): string[] {
+  const rows = text.split(/\r?\n/).filter(line => line.trim() !== '').map(csvCells);
+  if (rows.length === 0) {
+    return [];
+  }
+  const header = rows[0].map(cell => cell.toLowerCase());
+  const column = header.findIndex(cell => URL_COLUMNS.includes(cell));
+  return column === -1
+    ? rows.map(row => row[0])
+    : rows.slice(1).map(row => row[column] ?? '');
+}
+
+// An array of URLs, an array of { store_url } objects, or { store_urls: [...] }
+export function jsonStoreEntries(body: unknown): string[] {
+  let parsed = body;
+  if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+    parsed = (parsed as { store_urls?: unknown }).store_urls;
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('Expected an array of store URLs or { "store_urls": [...] }');
+  }
+  return parsed.map((entry) => {
+    if (entry && typeof entry === 'object') {
+      const { store_url, url } = entry as { store_url?: unknown; url?: unknown };
+      return String(store_url ?? url ?? '');
+    }
+    return String(entry);
+  });
+}
+
+// Cleans up the entries of an uploaded store list. Entries without a scheme
+// get https://, and the same store listed twice is only audited once.
+export function parseStoreList(entries: string[]): StoreList {
+  const seen = new Set<string>();
+  const list: StoreList = { urls: [], invalid: [] };
+
+  for (const entry of entries.map(value => value.trim()).filter(Boolean)) {
+    const candidate = /^https?:\/\//i.test(entry) ? entry : `https://${entry}`;
+    try {
+      new URL(candidate);
+    } catch {
+      list.invalid.push(entry);
+      continue;
+    }
+    const key = normalizeStoreUrl(candidate);
+    if (!seen.has(key)) {
+      seen.add(key);
+      list.urls.push(candidate);
+    }
+  }
+
+  return list;
+}
+
+// Works through a batch's stores in this process, keeping at most
+// `concurrency` of its runs executing at once.
+export class BatchRunner {
+  private active = new Set<string>();
+
+  isActive(batchId: string): boolean {
+    return this.active.has(batchId);
+  }
+
+  start(batch: BatchRecord): void {
+    const batches = getBatchRepository();
+    const pending = batch.items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => item.run_id === null);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < pending.length) {
+        const { item, index } = pending[next++];
+        try {
+          const { runId, finished } = await launchRun(item.store_url, { ...batch.options, batch_id: batch.batch_id });
+          await batches.setRunId(batch.batch_id, index, runId);
+          await finished;
+        } catch (error) {
+          console.error(`Batch ${batch.batch_id} could not start a run for ${item.store_url}:`, error);
+        }
+      }
+    };
+
+    this.active.add(batch.batch_id);
+    const workers = Array.from({ length: Math.min(batch.concurrency, pending.length) }, worker);
+    Promise.all(workers).finally(() => {
+      this.active.delete(batch.batch_id);
+      console.log(`Batch ${batch.batch_id} finished`);
+    });
+  }
+}
+
+// Keep a single instance across Next.js hot reloads
+const globalForBatchRunner = globalThis as unknown as { batchRunner?: BatchRunner };
+
+export function getBatchRunner(): BatchRunner {
+  if (!globalForBatchRunner.batchRunner) {
+    globalForBatchRunner.batchRunner = new BatchRunner();
+  }
+  return globalForBatchRunner.batchRunner;
+}
+
+export async function startBatch(
+  urls: string[],
+  options: BatchRecord['options'],
+  concurrency = getBatchConcurrency(),
+): Promise<BatchRecord> {
+  const batch: BatchRecord = {
+    batch_id: randomUUID(),
+    created_at: new Date().toISOString(),
+    concurrency,
+    options,
+    items: urls.map(store_url => ({ store_url, run_id: null })),
+  };
+  await getBatchRepository().create(batch);
+  getBatchRunner().start(batch);
+  return batch;
+}
+
+export interface BatchRow {
+  store_url: string;
+  run_id: string | null;
+  // 'pending' until the batch starts the store's run
+  status: RunStatus | 'pending';
+  score: number | null;
+  add_to_cart_success: boolean | null;
+  checkout_reached: boolean | null;
+  checkout_form_filled: boolean | null;
+  time_to_add_to_cart_seconds: number | null;
+  drop_off_step: string | null;
+  critical_count: number | null;
+  warning_count: number | null;
+  // Titles of the first few critical findings
+  top_critical: string[];
+}
+
+export interface BatchSummary {
+  batch_id: string;
+  created_at: string;
+  concurrency: number;
+  // interrupted: stores were still pending when the server restarted
+  status: 'running' | 'finished' | 'interrupted';
+  progress: Record<RunStatus | 'pending', number> & { total: number };
+  rows: BatchRow[];
+}
+
+const TOP_CRITICAL_COUNT = 3;
+
+function batchRow(store_url: string, record: RunRecord | null): BatchRow {
+  const result = record?.result;
+  const findings = result?.findings ?? [];
+  const critical = findings.filter(f => f.category === 'critical');
+  return {
+    store_url,
+    run_id: record?.run_id ?? null,
+    status: record?.status ?? 'pending',
+    score: result?.score ?? null,
+    add_to_cart_success: result?.metrics.add_to_cart_success ?? null,
+    checkout_reached: result?.metrics.checkout_reached ?? null,
+    checkout_form_filled: result?.metrics.checkout_form_filled ?? null,
+    time_to_add_to_cart_seconds: result?.metrics.time_to_add_to_cart_seconds ?? null,
+    drop_off_step: result?.metrics.drop_off_step ?? null,
+    critical_count: result ? critical.length : null,
+    warning_count: result ? findings.filter(f => f.category === 'warning').length : null,
+    top_critical: critical.slice(0, TOP_CRITICAL_COUNT).map(f => f.title),
+  };
+}
+
+// The batch's run records, read by the run ids kept on the batch rather than
+// by scanning every run for its batch_id
+export async function batchRuns(batch: BatchRecord): Promise<RunRecord[]> {
+  const runs = getRunRepository();
+  const records = await Promise.all(batch.items.flatMap(item => item.run_id ? [runs.get(item.run_id)] : []));
+  return records.filter((record): record is RunRecord => record !== null);
+}
+
+// runs are the batch's run records, in any order
+export function summarizeBatch(batch: BatchRecord, runs: RunRecord[], active: boolean): BatchSummary {
+  const byId = new Map(runs.map(record => [record.run_id, record]));
+  const rows = batch.items.map(item => batchRow(item.store_url, item.run_id ? byId.get(item.run_id) ?? null : null));
+
+  const progress = { total: rows.length, pending: 0, queued: 0, running: 0, completed: 0, failed: 0, cancelled: 0 };
+  for (const row of rows) {
+    progress[row.status]++;
+  }
+
+  const unfinished = progress.pending + progress.queued + progress.running > 0;
+  return {
+    batch_id: batch.batch_id,
+    created_at: batch.created_at,
+    concurrency: batch.concurrency,
+    status: !unfinished ? 'finished' : active ? 'running' : 'interrupted',
+    progress,
+    rows,
+  };
+}
+
+export const BATCH_SORT_KEYS = [
+  'store_url',
+  'status',
+  'score',
+  'time_to_add_to_cart_seconds',
+  'drop_off_step',
+  'critical_count',
+  'warning_count',
+] as const;
+
+export type BatchSortKey = typeof BATCH_SORT_KEYS[number];
+
+export function isBatchSortKey(value: unknown): value is BatchSortKey {
+  return BATCH_SORT_KEYS.includes(value as BatchSortKey);
+}
+
+// Rows without a value (pending or failed runs) always sort last
+export function sortBatchRows(rows: BatchRow[], key: BatchSortKey, order: 'asc' | 'desc'): BatchRow[] {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const x = a[key];
+    const y = b[key];
+    if (x === null || y === null) {
+      return x === y ? 0 : x === null ? 1 : -1;
+    }
+    return (typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y))) * direction;
+  });
+}
+
+const CSV_COLUMNS: (keyof BatchRow)[] = [
+  'store_url',
+  'status',
+  'score',
+  'add_to_cart_success',
+  'checkout_reached',
+  'checkout_form_filled',
+  'time_to_add_to_cart_seconds',
+  'drop_off_step',
+  'critical_count',
+  'warning_count',
+  'top_critical',
+  'run_id',
+];
+
+export function batchCsv(rows: BatchRow[]): string {
+  return toCsv(CSV_COLUMNS, rows);
+}
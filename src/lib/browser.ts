@@ -0,0 +1,122 @@
+import type { Page } from 'playwright';
+import type { Page as StagehandPage, V3Options } from '@browserbasehq/stagehand';
+import type { DeviceProfile } from '@/lib/devices';
+import type { AgentDriver } from '@/lib/pipeline';
+
+// BROWSERBASE drives a cloud browser session; LOCAL launches headless
+// Chromium on this machine (CI, staging stores behind a VPN, no session cost).
+export type BrowserEnv = 'BROWSERBASE' | 'LOCAL';
+
+export const BROWSER_ENVS: BrowserEnv[] = ['BROWSERBASE', 'LOCAL'];
+
+export function isBrowserEnv(value: unknown): value is BrowserEnv {
+  return BROWSER_ENVS.includes(value as BrowserEnv);
+}
+
+// Per-run choice first, then BROWSER_ENV, then Browserbase
+export function resolveBrowserEnv(requested?: BrowserEnv): BrowserEnv {
+  if (requested) {
+    return requested;
+  }
+  const configured = process.env.BROWSER_ENV?.toUpperCase();
+  return isBrowserEnv(configured) ? configured : 'BROWSERBASE';
+}
+
+export function stagehandOptions(env: BrowserEnv): V3Options {
+  const model = 'anthropic/claude-haiku-4-5';
+
+  if (env === 'LOCAL') {
+    return {
+      env: 'LOCAL',
+      model,
+      localBrowserLaunchOptions: {
+        headless: process.env.LOCAL_BROWSER_HEADLESS !== 'false',
+        // Falls back to the Chromium Stagehand finds on its own
+        executablePath: process.env.LOCAL_BROWSER_PATH || undefined,
+      },
+    };
+  }
+
+  if (!process.env.BROWSERBASE_API_KEY || !process.env.BROWSERBASE_PROJECT_ID) {
+    throw new Error('BROWSERBASE_API_KEY and BROWSERBASE_PROJECT_ID must be set, or use the LOCAL browser environment');
+  }
+
+  return {
+    env: 'BROWSERBASE',
+    apiKey: process.env.BROWSERBASE_API_KEY,
+    projectId: process.env.BROWSERBASE_PROJECT_ID,
+    model,
+  };
+}
+
+// A live browser a run can drive: the agent that acts on and reads the page,
+// and the page itself.
+export interface BrowserSession {
+  stagehand: AgentDriver;
+  page: Page;
+  // Link to the session recording, when the environment provides one
+  sessionUrl: string | null;
+  close(): Promise<void>;
+}
+
+export type SessionFactory = (env: BrowserEnv, device: DeviceProfile) => Promise<BrowserSession>;
+
+// Applies a device profile over CDP, which works the same for local and
+// Browserbase sessions. Must run before the first navigation.
+async function emulateDevice(page: StagehandPage, device: DeviceProfile): Promise<void> {
+  const { emulation } = device;
+  if (!emulation) {
+    return;
+  }
+  await page.sendCDP('Emulation.setDeviceMetricsOverride', {
+    width: emulation.width,
+    height: emulation.height,
+    deviceScaleFactor: emulation.deviceScaleFactor,
+    mobile: device.isMobile,
+  });
+  await page.sendCDP('Emulation.setUserAgentOverride', {
+    userAgent: emulation.userAgent,
+    platform: emulation.platform,
+  });
+  await page.sendCDP('Emulation.setTouchEmulationEnabled', {
+    enabled: device.isMobile,
+    maxTouchPoints: device.isMobile ? 5 : 0,
+  });
+}
+
+export const openStagehandSession: SessionFactory = async (env, device) => {
+  // Dynamically import Stagehand to avoid Zod registry conflicts
+  const { Stagehand } = await import('@browserbasehq/stagehand');
+
+  const stagehand = new Stagehand(stagehandOptions(env));
+  await stagehand.init();
+
+  try {
+    // Get the page from stagehand.context.pages()[0] as per V3 documentation
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const page = (stagehand as any).context.pages()[0] as Page;
+
+    if (!page) {
+      throw new Error('Could not get page from stagehand.context.pages()');
+    }
+
+    console.log('Got page from stagehand.context.pages()[0]');
+
+    await emulateDevice(page as unknown as StagehandPage, device);
+
+    // Get session URL for recording (Browserbase only)
+    const sessionId = stagehand.browserbaseSessionID;
+
+    return {
+      stagehand,
+      page,
+      sessionUrl: sessionId ? `https://browserbase.com/sessions/${sessionId}` : null,
+      close: () => stagehand.close(),
+    };
+  } catch (error) {
+    await stagehand.close().catch(() => {
+      // Ignore close errors
+    });
+    throw error;
+  }
+};
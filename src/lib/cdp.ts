@@ -0,0 +1,35 @@
+import type { Page } from 'playwright';
+import type { Page as StagehandPage } from '@browserbasehq/stagehand';
+
+// The part of a CDP session used here. Stagehand and Playwright sessions
+// both have it.
+export interface CdpSession {
+  send<T = unknown>(method: string, params?: object): Promise<T>;
+  on<T = unknown>(event: string, handler: (params: T) => void): void;
+}
+
+// Stagehand pages expose the session they are driven over; Playwright pages
+// (the offline harness) open one
+export async function openCdpSession(page: Page): Promise<CdpSession> {
+  const stagehandPage = page as unknown as StagehandPage;
+  if (typeof stagehandPage.getSessionForFrame === 'function') {
+    return stagehandPage.getSessionForFrame(stagehandPage.mainFrameId());
+  }
+  return await page.context().newCDPSession(page) as unknown as CdpSession;
+}
+
+// Sessions of every frame of a Stagehand page by session id, so callers can
+// tell which ones they have seen. Cross-origin frames run in a target, and so
+// a session, of their own. Playwright pages (the offline harness) report none;
+// their frames share the page's session.
+export function frameSessions(page: Page): Map<string, CdpSession> {
+  const stagehandPage = page as unknown as StagehandPage;
+  const sessions = new Map<string, CdpSession>();
+  if (typeof stagehandPage.listAllFrameIds !== 'function') return sessions;
+
+  for (const frameId of stagehandPage.listAllFrameIds()) {
+    const session = stagehandPage.getSessionForFrame(frameId);
+    if (session.id) sessions.set(session.id, session);
+  }
+  return sessions;
+}
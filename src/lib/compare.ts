@@ -0,0 +1,112 @@
+import type { AnalysisResult, Finding } from '@/lib/agent';
+
+type BooleanMetric = 'add_to_cart_success' | 'checkout_reached' | 'checkout_form_filled';
+
+const BOOLEAN_METRICS: BooleanMetric[] = ['add_to_cart_success', 'checkout_reached', 'checkout_form_filled'];
+
+export interface MetricChange {
+  metric: BooleanMetric;
+  before: boolean;
+  after: boolean;
+}
+
+export interface RunComparison {
+  store_url: string;
+  a: { run_id: string; score: number; drop_off_step: string | null };
+  b: { run_id: string; score: number; drop_off_step: string | null };
+  score_delta: number;
+  // Only the boolean metrics whose value differs between the two runs
+  flipped_metrics: MetricChange[];
+  findings: {
+    // Present in b but not in a
+    added: Finding[];
+    // Present in a but gone from b
+    resolved: Finding[];
+    // Present in both, reported with b's copy
+    unchanged: Finding[];
+  };
+}
+
+// Compares run a (baseline) against run b (the newer run). Findings are
+// matched on Finding.id, which is stable across runs of the same store.
+export function compareRuns(a: AnalysisResult, b: AnalysisResult): RunComparison {
+  const before = new Set(a.findings.map(f => f.id));
+  const after = new Set(b.findings.map(f => f.id));
+
+  const added = b.findings.filter(f => !before.has(f.id));
+  const resolved = a.findings.filter(f => !after.has(f.id));
+  const unchanged = b.findings.filter(f => before.has(f.id));
+
+  const flippedMetrics = BOOLEAN_METRICS
+    .filter(metric => a.metrics[metric] !== b.metrics[metric])
+    .map(metric => ({ metric, before: a.metrics[metric], after: b.metrics[metric] }));
+
+  return {
+    store_url: b.store_url,
+    a: { run_id: a.run_id, score: a.score, drop_off_step: a.metrics.drop_off_step },
+    b: { run_id: b.run_id, score: b.score, drop_off_step: b.metrics.drop_off_step },
+    score_delta: b.score - a.score,
+    flipped_metrics: flippedMetrics,
+    findings: { added, resolved, unchanged },
+  };
+}
+
+export interface DeviceRunSummary {
+  run_id: string;
+  device: string;
+  score: number;
+  // Funnel milestones the run reached
+  funnel: Record<BooleanMetric, boolean>;
+  drop_off_step: string | null;
+}
+
+export interface DeviceComparison {
+  store_url: string;
+  desktop: DeviceRunSummary;
+  mobile: DeviceRunSummary;
+  // Mobile score minus desktop score
+  score_delta: number;
+  // First funnel milestone reached on one device but not the other, in
+  // funnel order; null when both got equally far
+  diverges_at: MetricChange | null;
+  // Boolean metrics that differ, as desktop (before) vs mobile (after)
+  flipped_metrics: MetricChange[];
+  findings: {
+    desktop_only: Finding[];
+    mobile_only: Finding[];
+    // Reported with the mobile run's copy
+    both: Finding[];
+  };
+}
+
+function deviceSummary(result: AnalysisResult, fallback: string): DeviceRunSummary {
+  return {
+    run_id: result.run_id,
+    device: result.device ?? fallback,
+    score: result.score,
+    funnel: Object.fromEntries(BOOLEAN_METRICS.map(metric => [metric, result.metrics[metric]])) as Record<BooleanMetric, boolean>,
+    drop_off_step: result.metrics.drop_off_step,
+  };
+}
+
+// Compares the desktop and mobile runs of a device pair: the same store,
+// audited at the same time, so differences come from the device.
+export function compareDevices(desktop: AnalysisResult, mobile: AnalysisResult): DeviceComparison {
+  const { flipped_metrics, findings } = compareRuns(desktop, mobile);
+
+  return {
+    store_url: desktop.store_url,
+    desktop: deviceSummary(desktop, 'desktop'),
+    mobile: deviceSummary(mobile, 'mobile'),
+    score_delta: mobile.score - desktop.score,
+    // BOOLEAN_METRICS is in funnel order, so the first flip is where the
+    // funnels part ways
+    diverges_at: flipped_metrics[0] ?? null,
+    flipped_metrics,
+    findings: {
+      desktop_only: findings.resolved,
+      mobile_only: findings.added,
+      both: findings.unchanged,
+    },
+  };
+}
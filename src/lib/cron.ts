@@ -0,0 +1,129 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week),
+// evaluated in the server's local time. Fields accept *, numbers, ranges
+// (1-5), lists (1,15) and steps (*/15, 0-30/10). Day-of-week 0 and 7 are
+// both Sunday.
+
+interface CronField {
+  min: number;
+  max: number;
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 },
+  { min: 0, max: 23 },
+  { min: 1, max: 31 },
+  { min: 1, max: 12 },
+  { min: 0, max: 7 },
+];
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+};
+
+// Far enough ahead for any valid expression (Feb 29 on a Monday is ~28 years)
+const MAX_SEARCH_YEARS = 30;
+
+interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  // Like standard cron, a restricted day-of-month and day-of-week match
+  // when either one does
+  anyDay: boolean;
+}
+
+function parseField(text: string, { min, max }: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid cron field: ${text}`);
+    }
+    const [, range, start, end, step] = match;
+    const from = range === '*' ? min : Number(start);
+    const to = range === '*' ? max : end !== undefined ? Number(end) : step !== undefined ? max : from;
+    const by = step !== undefined ? Number(step) : 1;
+
+    if (from < min || to > max || from > to || by < 1) {
+      throw new Error(`Cron field out of range (${min}-${max}): ${text}`);
+    }
+    for (let value = from; value <= to; value += by) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseCron(expression: string): CronSchedule {
+  const fields = (ALIASES[expression.trim()] ?? expression).trim().split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(`A cron expression has ${FIELDS.length} fields, got ${fields.length}`);
+  }
+
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) => parseField(field, FIELDS[index]));
+  if (weekdays.has(7)) {
+    weekdays.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    anyDay: fields[2] === '*' || fields[4] === '*',
+  };
+}
+
+// Returns why the expression is not valid (or never matches), or null
+export function cronError(expression: string): string | null {
+  try {
+    nextCronTime(expression, new Date());
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid cron expression';
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const day = schedule.days.has(date.getDate());
+  const weekday = schedule.weekdays.has(date.getDay());
+  return schedule.anyDay ? day && weekday : day || weekday;
+}
+
+// The first minute strictly after `after` that the expression matches
+export function nextCronTime(expression: string, after: Date): Date {
+  const schedule = parseCron(expression);
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  // Skip whole months, days and hours that cannot match before testing minutes
+  while (date < limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression never matches: ${expression}`);
+}
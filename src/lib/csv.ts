@@ -0,0 +1,24 @@
+// Values a CSV export can hold; lists are joined with "; "
+export type CsvValue = string | number | boolean | null | undefined | string[];
+
+// Spreadsheets run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function csvCell(value: CsvValue): string {
+  let text = Array.isArray(value) ? value.join('; ') : value === null || value === undefined ? '' : String(value);
+  // Text comes from the store (titles, evidence, URLs); a leading quote
+  // keeps Excel and Sheets from evaluating it. Numbers are left as they are.
+  if (typeof value !== 'number' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// A header line with the column names, then one line per row
+export function toCsv<T extends { [K in keyof T]: CsvValue }>(columns: (keyof T & string)[], rows: T[]): string {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => csvCell(row[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
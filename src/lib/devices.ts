@@ -0,0 +1,61 @@
+// Devices a run can emulate. Mobile profiles set the viewport, user agent and
+// touch support before the store is opened, so it serves its mobile layout.
+
+export type DeviceId = 'desktop' | 'iphone' | 'pixel';
+
+export interface DeviceProfile {
+  id: DeviceId;
+  label: string;
+  // Null keeps the browser's own window size, user agent and input
+  emulation: {
+    width: number;
+    height: number;
+    deviceScaleFactor: number;
+    userAgent: string;
+    // Navigator.platform reported alongside the user agent
+    platform: string;
+  } | null;
+  // Mobile runs also check tap targets and the sticky add-to-cart bar
+  isMobile: boolean;
+}
+
+export const DEVICES: Record<DeviceId, DeviceProfile> = {
+  desktop: {
+    id: 'desktop',
+    label: 'Desktop',
+    emulation: null,
+    isMobile: false,
+  },
+  iphone: {
+    id: 'iphone',
+    label: 'iPhone 15',
+    emulation: {
+      width: 393,
+      height: 852,
+      deviceScaleFactor: 3,
+      userAgent: 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1',
+      platform: 'iPhone',
+    },
+    isMobile: true,
+  },
+  pixel: {
+    id: 'pixel',
+    label: 'Pixel 8',
+    emulation: {
+      width: 412,
+      height: 915,
+      deviceScaleFactor: 2.625,
+      userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Mobile Safari/537.36',
+      platform: 'Linux armv81',
+    },
+    isMobile: true,
+  },
+};
+
+export const DEVICE_IDS = Object.keys(DEVICES) as DeviceId[];
+
+export const DEFAULT_DEVICE: DeviceId = 'desktop';
+
+export function isDeviceId(value: unknown): value is DeviceId {
+  return DEVICE_IDS.includes(value as DeviceId);
+}
@@ -0,0 +1,28 @@
+// How findings are grouped and labelled for people to read, shared by the run
+// page and the exported reports. Safe to import from client components.
+
+export type FindingCategory = 'critical' | 'warning' | 'suggestion' | 'positive';
+
+// Issue categories, most severe first
+export const ISSUE_CATEGORIES: FindingCategory[] = ['critical', 'warning', 'suggestion'];
+
+export const CATEGORY_LABELS: Record<FindingCategory, string> = {
+  critical: 'critical',
+  warning: 'warning',
+  suggestion: 'optimization',
+  positive: 'positive',
+};
+
+export interface GroupedFindings<T> {
+  // What is working well
+  positive: T[];
+  // Issues and recommendations: critical first, then warnings, then suggestions
+  issues: T[];
+}
+
+export function groupFindings<T extends { category: FindingCategory }>(findings: T[]): GroupedFindings<T> {
+  return {
+    positive: findings.filter(f => f.category === 'positive'),
+    issues: ISSUE_CATEGORIES.flatMap(category => findings.filter(f => f.category === category)),
+  };
+}
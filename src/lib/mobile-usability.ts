@@ -0,0 +1,139 @@
+import type { Page } from 'playwright';
+import type { Finding } from '@/lib/agent';
+
+// Smallest comfortable touch target, per Apple's Human Interface Guidelines
+export const MIN_TAP_TARGET_PX = 44;
+
+// A few undersized icons are common; more than this is flagged
+const MAX_SMALL_TAP_TARGETS = 3;
+
+export interface MobileUsability {
+  hasViewportMeta: boolean;
+  // Content wider than the screen, so the page scrolls sideways
+  horizontalScroll: boolean;
+  tapTargetCount: number;
+  // Labels of the undersized targets, e.g. "Search" or "a.icon-cart"
+  smallTapTargets: string[];
+  // An add-to-cart button stays on screen (fixed or sticky) after scrolling
+  stickyAddToCart: boolean;
+}
+
+// Measures the product page as rendered for the emulated device. Runs
+// entirely in the page, so it needs no model calls. addToCartLabels are the
+// button labels that count as an add-to-cart button.
+export async function checkMobileUsability(page: Page, addToCartLabels: string[]): Promise<MobileUsability> {
+  // Scroll past the buy box so a sticky add-to-cart bar shows if there is one
+  await page.evaluate(() => window.scrollTo(0, document.documentElement.scrollHeight));
+  await new Promise(resolve => setTimeout(resolve, 500));
+
+  const usability = await page.evaluate(({ labels, minSize }) => {
+    const isVisible = (element: Element) => {
+      const rect = element.getBoundingClientRect();
+      const style = getComputedStyle(element);
+      return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+    };
+    const describe = (element: Element) => {
+      const text = (element.getAttribute('aria-label') || (element as HTMLElement).innerText || '').trim();
+      return text ? text.slice(0, 40) : `${element.tagName.toLowerCase()}${element.className ? `.${String(element.className).split(' ')[0]}` : ''}`;
+    };
+    const isPinned = (element: Element | null): boolean => {
+      for (let current = element; current; current = current.parentElement) {
+        const position = getComputedStyle(current).position;
+        if (position === 'fixed' || position === 'sticky') {
+          return true;
+        }
+      }
+      return false;
+    };
+
+    // Links inside running text are exempt from target size guidance
+    const targets = [...document.querySelectorAll('a[href], button, input:not([type="hidden"]), select, textarea, [role="button"]')]
+      .filter(element => isVisible(element) && !element.closest('p'));
+    const small = targets.filter(element => {
+      const rect = element.getBoundingClientRect();
+      return rect.width < minSize || rect.height < minSize;
+    });
+
+    const lowerLabels = labels.map(label => label.toLowerCase());
+    const buttons = [...document.querySelectorAll('button, input[type="submit"], a[href], [role="button"]')];
+    const stickyAddToCart = buttons.some(element => {
+      const text = ((element as HTMLInputElement).value || (element as HTMLElement).innerText || '').trim().toLowerCase();
+      if (!lowerLabels.some(label => text.includes(label))) {
+        return false;
+      }
+      const rect = element.getBoundingClientRect();
+      return isVisible(element) && rect.top < window.innerHeight && rect.bottom > 0 && isPinned(element);
+    });
+
+    return {
+      hasViewportMeta: /width\s*=\s*device-width/.test(document.querySelector('meta[name="viewport"]')?.getAttribute('content') ?? ''),
+      horizontalScroll: document.documentElement.scrollWidth > window.innerWidth + 1,
+      tapTargetCount: targets.length,
+      smallTapTargets: small.map(describe),
+      stickyAddToCart,
+    };
+  }, { labels: addToCartLabels, minSize: MIN_TAP_TARGET_PX });
+
+  await page.evaluate(() => window.scrollTo(0, 0));
+  return usability;
+}
+
+export function mobileFindings(usability: MobileUsability): Finding[] {
+  const findings: Finding[] = [];
+
+  if (!usability.hasViewportMeta) {
+    findings.push({
+      id: 'mobile-no-viewport-meta',
+      category: 'critical',
+      title: 'Page Not Set Up for Mobile',
+      description: 'The product page has no responsive viewport meta tag, so phones render it zoomed out',
+      evidence: 'No <meta name="viewport" content="width=device-width"> found',
+      recommendation: 'Add <meta name="viewport" content="width=device-width, initial-scale=1"> and a responsive layout',
+    });
+  }
+
+  if (usability.horizontalScroll) {
+    findings.push({
+      id: 'mobile-horizontal-scroll',
+      category: 'warning',
+      title: 'Page Scrolls Sideways on Mobile',
+      description: 'Content is wider than the phone screen, so shoppers have to scroll horizontally',
+      evidence: 'Page content is wider than the mobile viewport',
+      recommendation: 'Find the overflowing element (often a wide image, table or carousel) and constrain it to the screen width',
+    });
+  }
+
+  const small = usability.smallTapTargets;
+  if (small.length > MAX_SMALL_TAP_TARGETS) {
+    findings.push({
+      id: 'mobile-small-tap-targets',
+      category: 'warning',
+      title: 'Tap Targets Too Small',
+      description: `${small.length} of ${usability.tapTargetCount} buttons and links are smaller than ${MIN_TAP_TARGET_PX}×${MIN_TAP_TARGET_PX}px, making them easy to mis-tap`,
+      evidence: `Undersized targets include: ${small.slice(0, 5).map(label => `"${label}"`).join(', ')}`,
+      recommendation: `Give buttons, links and form controls a touch area of at least ${MIN_TAP_TARGET_PX}×${MIN_TAP_TARGET_PX}px, with spacing between them`,
+    });
+  }
+
+  if (usability.stickyAddToCart) {
+    findings.push({
+      id: 'mobile-sticky-add-to-cart',
+      category: 'positive',
+      title: 'Sticky Add-to-Cart on Mobile',
+      description: 'The add-to-cart button stays on screen while scrolling the product page',
+      evidence: 'An add-to-cart button was pinned to the screen after scrolling to the bottom of the page',
+      recommendation: 'Keep the sticky button; it shortens the path to cart on long product pages',
+    });
+  } else {
+    findings.push({
+      id: 'mobile-no-sticky-add-to-cart',
+      category: 'suggestion',
+      title: 'No Sticky Add-to-Cart on Mobile',
+      description: 'Once shoppers scroll past the buy box, they have to scroll back up to add the product to cart',
+      evidence: 'No add-to-cart button was visible after scrolling to the bottom of the product page',
+      recommendation: 'Pin an add-to-cart bar to the bottom of the screen once the main button scrolls out of view',
+    });
+  }
+
+  return findings;
+}
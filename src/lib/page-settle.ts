@@ -0,0 +1,173 @@
+import type { Page } from 'playwright';
+
+// Waits for the store to finish reacting to what the agent did, instead of
+// sleeping a fixed time: until the network is idle and the DOM has stopped
+// changing, or the cart badge changes, up to a cap. How long each wait took
+// is what a shopper would have waited for the store, so the run's timing
+// metrics are built from these waits rather than from wall-clock time,
+// which mostly measures the model.
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+// No requests in flight and no DOM changes for this long counts as settled
+const DEFAULT_QUIET_MS = 500;
+const POLL_INTERVAL_MS = 100;
+
+export interface SettleOptions {
+  // Longest wait; defaults to 10s
+  timeoutMs?: number;
+  quietMs?: number;
+  // Date.now() the shopper started waiting; defaults to when the wait starts
+  since?: number;
+  // Cart badge text from before the action, see cartActionStart. The wait
+  // stops as soon as the badge differs from it.
+  cartBefore?: string | null;
+}
+
+// What ended the wait: the page went quiet (after navigating to another URL,
+// or on the same one), the cart badge changed, or the cap was reached
+export type SettleReason = 'quiet' | 'navigation' | 'cart' | 'timeout';
+
+export interface PageWait {
+  // What the shopper was waiting for, e.g. "Open product page"
+  label: string;
+  // Page the wait ended on
+  url: string;
+  waited_ms: number;
+  settled_by: SettleReason;
+}
+
+interface Activity {
+  // fetch/XHR requests not finished yet
+  inflight: number;
+  // performance.now() of the last DOM change, request or resource load
+  lastActivity: number;
+  // The document has started navigating away
+  leaving: boolean;
+}
+
+// Runs in the top frame of every document before any page script, so all
+// of the page's requests are counted. Must not reference anything outside
+// itself.
+function trackActivity() {
+  if (window.top !== window) return;
+  const activity = { inflight: 0, lastActivity: performance.now(), leaving: false };
+  (window as unknown as { __shopaiActivity: typeof activity }).__shopaiActivity = activity;
+  const touch = () => {
+    activity.lastActivity = performance.now();
+  };
+
+  // Attribute changes are left out: carousels and animations change styles
+  // all the time without the page still loading
+  new MutationObserver(touch).observe(document, { childList: true, subtree: true, characterData: true });
+  try {
+    new PerformanceObserver(touch).observe({ type: 'resource' });
+  } catch {
+    // Resource timing not supported
+  }
+  window.addEventListener('beforeunload', () => {
+    activity.leaving = true;
+  });
+
+  const started = () => {
+    activity.inflight++;
+    touch();
+  };
+  const finished = () => {
+    activity.inflight = Math.max(0, activity.inflight - 1);
+    touch();
+  };
+
+  const fetchImpl = window.fetch;
+  window.fetch = function (...args: Parameters<typeof fetch>) {
+    started();
+    return fetchImpl.apply(window, args).finally(finished);
+  };
+
+  const send = XMLHttpRequest.prototype.send;
+  XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, ...args: Parameters<typeof send>) {
+    started();
+    this.addEventListener('loadend', finished, { once: true });
+    try {
+      send.apply(this, args);
+    } catch (error) {
+      this.removeEventListener('loadend', finished);
+      finished();
+      throw error;
+    }
+  };
+}
+
+// Must run before the first navigation. Pages loaded without it settle on
+// document.readyState alone.
+export async function installSettleTracking(page: Page): Promise<void> {
+  await page.addInitScript(trackActivity);
+}
+
+interface PageState {
+  settled: boolean;
+  cart: string;
+}
+
+async function readState(page: Page, quietMs: number): Promise<PageState | null> {
+  return page.evaluate((quiet) => {
+    const activity = (window as unknown as { __shopaiActivity?: Activity }).__shopaiActivity;
+    const settled = activity
+      ? document.readyState !== 'loading' && !activity.leaving && activity.inflight === 0 &&
+        performance.now() - activity.lastActivity >= quiet
+      : document.readyState === 'complete';
+
+    // Cart links and badges; their text ("Cart (2)", "3") changes when an
+    // item is added
+    const cart = [...document.querySelectorAll('a[href*="cart" i], [id*="cart-count" i], [class*="cart-count" i], [data-cart-count]')]
+      .map(element => `${element.textContent ?? ''}${element.getAttribute('aria-label') ?? ''}`.replace(/\s+/g, ' ').trim())
+      .join('|');
+
+    return { settled, cart };
+  }, quietMs).catch(() => null);
+}
+
+// Waits until the page has settled. Never throws: a page that does not
+// settle in time is left as it is after timeoutMs.
+export async function waitForSettle(page: Page, options: SettleOptions = {}): Promise<{ waited_ms: number; settled_by: SettleReason }> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const quietMs = options.quietMs ?? DEFAULT_QUIET_MS;
+  const started = Date.now();
+  const startUrl = page.url();
+  const startCart = options.cartBefore ?? null;
+
+  const result = (settledBy: SettleReason) => ({ waited_ms: Date.now() - started, settled_by: settledBy });
+
+  for (;;) {
+    // Null while a navigation swaps the document
+    const state = await readState(page, quietMs);
+    if (state) {
+      // On the same page; after a navigation the new page has to load first
+      if (startCart !== null && state.cart !== startCart && page.url() === startUrl) {
+        return result('cart');
+      }
+      if (state.settled) {
+        return result(page.url() !== startUrl ? 'navigation' : 'quiet');
+      }
+    }
+    if (Date.now() - started >= timeoutMs) {
+      return result('timeout');
+    }
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+// Settle options for an action that should change the cart, e.g. clicking add
+// to cart, taken right before it. The store may update the badge while act()
+// is still returning, so the cart is compared with how it was before the
+// action. The wait is still timed from when act() returns: until then the
+// shopper is mostly waiting on the model.
+export async function cartActionStart(page: Page): Promise<SettleOptions> {
+  const state = await readState(page, DEFAULT_QUIET_MS);
+  return { cartBefore: state?.cart ?? null };
+}
+
+// Seconds the shopper spent waiting on the store, to one decimal
+export function waitedSeconds(waits: PageWait[]): number {
+  const total = waits.reduce((sum, wait) => sum + wait.waited_ms, 0);
+  return Math.round(total / 100) / 10;
+}
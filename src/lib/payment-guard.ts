@@ -0,0 +1,359 @@
+import type { Page } from 'playwright';
+import type { Finding } from '@/lib/agent';
+import { CdpSession, frameSessions, openCdpSession } from '@/lib/cdp';
+import { PERSONAS, vocabulary } from '@/lib/personas';
+import type { AgentDriver } from '@/lib/pipeline';
+
+// Keeps a run from ever placing an order or authorizing a payment, whatever
+// the model makes of a prompt. A script installed in every frame before any
+// page script runs drops clicks on order buttons, submits of order and card
+// forms, and fetch/XHR/beacon requests to order and payment endpoints, and
+// reports what it dropped. Below it, CDP request interception fails whatever
+// order request still reaches the network: native form posts, requests from
+// cross-origin frames the script missed. The checkout steps only ask the
+// agent not to go that far; this makes sure it cannot.
+
+// Labels of buttons that place the order, besides every persona's placeOrder
+// vocabulary. A label matches when it starts with one of these followed by a
+// non-letter, so "Pay $45.00" matches "pay" and "PayPal" or "Payment" do not.
+// Labels only count on checkout pages: "Jetzt kaufen" on a product page is a
+// buy-now button, not the order button.
+const EXTRA_ORDER_LABELS = [
+  'pay',
+  'complete order',
+  'complete purchase',
+  'confirm order',
+  'confirm and pay',
+  'submit order',
+  'jetzt bestellen',
+  'kostenpflichtig bestellen',
+  'siparişi onayla',
+];
+
+// Endpoints that submit an order or authorize a payment: Shopify checkout
+// completion, WooCommerce and Magento order placement, Stripe and PayPal
+// payment confirmation. Only non-GET requests to them are blocked.
+const ORDER_REQUEST_PATTERNS = [
+  'SubmitForCompletion',
+  '/checkouts?/[^?#]*/(complete|processing|submit)',
+  'place[-_]?order',
+  '[?&]wc-ajax=checkout',
+  '/payment-information',
+  '/v1/payment_intents/[^/]+/confirm',
+  '/v1/charges',
+  '/v2/checkout/orders/[^/]+/(capture|authorize)',
+];
+
+// URLs the network interception pauses to check against
+// ORDER_REQUEST_PATTERNS, in CDP's wildcard syntax. Coarser than the patterns,
+// so as few requests as possible wait on the check.
+const ORDER_REQUEST_URL_PATTERNS = [
+  '*SubmitForCompletion*',
+  '*/checkout*',
+  '*place*order*',
+  '*place*Order*',
+  '*wc-ajax=checkout*',
+  '*/payment-information*',
+  '*/v1/payment_intents/*',
+  '*/v1/charges*',
+  '*/v2/checkout/orders/*',
+];
+
+const ORDER_REQUEST_REGEXES = ORDER_REQUEST_PATTERNS.map(pattern => new RegExp(pattern, 'i'));
+
+function isOrderRequest(method: string, url: string): boolean {
+  return method.toUpperCase() !== 'GET' && ORDER_REQUEST_REGEXES.some(pattern => pattern.test(url));
+}
+
+// Pages where order button labels are checked, besides pages with card fields
+const CHECKOUT_URL_PATTERN = 'checkout';
+
+// Inputs that only card payment forms have
+const CARD_FIELD_SELECTOR = [
+  'input[autocomplete^="cc-number"]',
+  'input[autocomplete^="cc-csc"]',
+  'input[name*="cardnumber" i]',
+  'input[name*="card_number" i]',
+  'input[name*="cvv" i]',
+  'input[name*="cvc" i]',
+].join(', ');
+
+export interface BlockedAction {
+  kind: 'click' | 'submit' | 'request';
+  // Button label, form description or request method and URL
+  target: string;
+  // Page (or frame) the action was attempted on
+  url: string;
+  at: string;
+}
+
+// Thrown by the guarded driver after an act() that tried to place an order.
+// In the checkout form the pipeline ends the funnel on it without a drop-off:
+// the shopper got all the way to the order button. Anywhere earlier it is a
+// drop-off, see orderSubmissionFinding.
+export class OrderSubmissionBlockedError extends Error {
+  constructor(readonly actions: BlockedAction[]) {
+    super(`Blocked order submission: ${actions.map(action => action.target).join(', ')}`);
+    this.name = 'OrderSubmissionBlockedError';
+  }
+}
+
+// For an order submission blocked before the checkout form, where the agent
+// should not have found anything that places an order
+export function orderSubmissionFinding(error: OrderSubmissionBlockedError): Finding {
+  return {
+    id: 'order-submission-blocked',
+    category: 'warning',
+    title: 'Order Submitted Before Checkout',
+    description: 'An action before the checkout form would have placed an order or started a payment',
+    evidence: error.message,
+    recommendation: 'Make buy-now and express payment buttons clearly distinct from "Add to cart" and "Checkout"',
+  };
+}
+
+interface GuardConfig {
+  labels: string[];
+  requestPatterns: string[];
+  cardFieldSelector: string;
+  checkoutUrlPattern: string;
+}
+
+// Runs in the page, so it must not reference anything outside itself.
+// Frames report blocked actions to the top frame with postMessage, which works
+// across origins (card forms usually live in a payment provider's iframe); the
+// top frame keeps them in window.__shopaiBlockedActions until they are read.
+function guardFrame(config: GuardConfig) {
+  const MESSAGE_KEY = '__shopaiPaymentGuard';
+  const win = window as unknown as Record<string, unknown>;
+  if (win[MESSAGE_KEY]) return;
+  win[MESSAGE_KEY] = true;
+
+  const isTop = window.top === window;
+  const pending: unknown[] = [];
+  if (isTop) {
+    win.__shopaiBlockedActions = pending;
+    window.addEventListener('message', (event) => {
+      const data = event.data as Record<string, unknown> | null;
+      if (data && typeof data === 'object' && data[MESSAGE_KEY]) {
+        pending.push(data[MESSAGE_KEY]);
+      }
+    });
+  }
+
+  const report = (kind: string, target: string) => {
+    const action = { kind, target: target.slice(0, 200), url: location.href, at: new Date().toISOString() };
+    if (isTop) {
+      pending.push(action);
+    } else {
+      window.top?.postMessage({ [MESSAGE_KEY]: action }, '*');
+    }
+  };
+
+  const normalize = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim().toLowerCase();
+  // Letters are the characters with an upper and a lower case
+  const isLetter = (char: string) => char.toLowerCase() !== char.toUpperCase();
+  const isOrderLabel = (text: string) => config.labels.some(label =>
+    text.startsWith(label) && !isLetter(text.charAt(label.length))
+  );
+  const requestPatterns = config.requestPatterns.map(pattern => new RegExp(pattern, 'i'));
+  const isOrderRequest = (method: string, url: string) =>
+    method.toUpperCase() !== 'GET' && requestPatterns.some(pattern => pattern.test(url));
+  const checkoutUrl = new RegExp(config.checkoutUrlPattern, 'i');
+  const isCheckoutPage = () =>
+    checkoutUrl.test(location.href) || document.querySelector(config.cardFieldSelector) !== null;
+  const isOrderButton = (element: Element) => isCheckoutPage() && isOrderLabel(labelOf(element));
+
+  const labelOf = (element: Element) => normalize(
+    element.getAttribute('aria-label') ||
+    (element instanceof HTMLInputElement ? element.value : element.textContent)
+  );
+
+  const orderReason = (form: HTMLFormElement, submitter: Element | null) => {
+    if (submitter && isOrderButton(submitter)) return `"${labelOf(submitter)}"`;
+    if (isOrderRequest(form.method || 'GET', form.action)) return `form to ${form.action}`;
+    if (form.querySelector(config.cardFieldSelector)) return 'card payment form';
+    return null;
+  };
+
+  const stop = (event: Event) => {
+    event.preventDefault();
+    event.stopImmediatePropagation();
+  };
+
+  // On window in the capture phase, so the guard sees events before any
+  // listener the store registers
+  window.addEventListener('click', (event) => {
+    const target = event.target instanceof Element
+      ? event.target.closest('button, a, input[type="submit"], input[type="button"], [role="button"]')
+      : null;
+    if (target && isOrderButton(target)) {
+      stop(event);
+      report('click', `"${labelOf(target)}"`);
+    }
+  }, true);
+
+  window.addEventListener('submit', (event) => {
+    const form = event.target as HTMLFormElement;
+    const reason = orderReason(form, (event as SubmitEvent).submitter ?? null);
+    if (reason) {
+      stop(event);
+      report('submit', reason);
+    }
+  }, true);
+
+  // form.submit() fires no submit event
+  const submit = HTMLFormElement.prototype.submit;
+  HTMLFormElement.prototype.submit = function (this: HTMLFormElement) {
+    const reason = orderReason(this, null);
+    if (reason) {
+      report('submit', reason);
+      return;
+    }
+    submit.call(this);
+  };
+
+  const fetchImpl = window.fetch;
+  window.fetch = function (input: RequestInfo | URL, init?: RequestInit) {
+    const url = input instanceof Request ? input.url : String(input);
+    const method = init?.method || (input instanceof Request ? input.method : 'GET');
+    if (isOrderRequest(method, url)) {
+      report('request', `${method.toUpperCase()} ${url}`);
+      return Promise.reject(new TypeError('Blocked by checkout analysis'));
+    }
+    return fetchImpl.call(window, input, init);
+  };
+
+  const open = XMLHttpRequest.prototype.open;
+  const send = XMLHttpRequest.prototype.send;
+  const requests = new WeakMap<XMLHttpRequest, { method: string; url: string }>();
+  XMLHttpRequest.prototype.open = function (this: XMLHttpRequest, ...args: Parameters<typeof open>) {
+    requests.set(this, { method: args[0], url: String(args[1]) });
+    return open.apply(this, args);
+  } as typeof open;
+  XMLHttpRequest.prototype.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+    const request = requests.get(this);
+    if (request && isOrderRequest(request.method, request.url)) {
+      report('request', `${request.method.toUpperCase()} ${request.url}`);
+      this.abort();
+      return;
+    }
+    send.call(this, body);
+  };
+
+  const sendBeacon = navigator.sendBeacon;
+  navigator.sendBeacon = function (url: string | URL, data?: BodyInit | null) {
+    if (isOrderRequest('POST', String(url))) {
+      report('request', `POST ${url}`);
+      return false;
+    }
+    return sendBeacon.call(navigator, url, data);
+  };
+
+  // A service worker's requests pass neither these hooks nor the page's
+  // request interception
+  if (navigator.serviceWorker) {
+    navigator.serviceWorker.register = () =>
+      Promise.reject(new DOMException('Service workers are disabled by checkout analysis', 'SecurityError'));
+  }
+}
+
+interface RequestPausedEvent {
+  requestId: string;
+  request: { url: string; method: string };
+}
+
+function guardConfig(): GuardConfig {
+  const labels = Object.values(PERSONAS).flatMap(persona => vocabulary(persona, 'placeOrder'));
+  return {
+    labels: [...new Set([...labels, ...EXTRA_ORDER_LABELS].map(label => label.toLowerCase()))],
+    requestPatterns: ORDER_REQUEST_PATTERNS,
+    cardFieldSelector: CARD_FIELD_SELECTOR,
+    checkoutUrlPattern: CHECKOUT_URL_PATTERN,
+  };
+}
+
+export class PaymentGuard {
+  // Order requests failed by the interception since the last takeBlocked()
+  private blockedRequests: BlockedAction[] = [];
+  // Ids of the frame sessions requests are intercepted on
+  private interceptedFrames = new Set<string>();
+
+  constructor(private page: Page) {}
+
+  // Must run before the first navigation, like device emulation, so the
+  // guard is in place before any store script
+  async install(): Promise<void> {
+    await this.page.addInitScript(guardFrame, guardConfig());
+    if (frameSessions(this.page).size === 0) {
+      await this.intercept(await openCdpSession(this.page));
+    }
+    await this.interceptFrames();
+  }
+
+  // Actions blocked since the last call. The page's part is empty when the
+  // page cannot be read, e.g. mid-navigation, which a blocked action would
+  // have prevented anyway.
+  async takeBlocked(): Promise<BlockedAction[]> {
+    const inPage = await this.page.evaluate(() => {
+      const win = window as unknown as { __shopaiBlockedActions?: BlockedAction[] };
+      return win.__shopaiBlockedActions?.splice(0) ?? [];
+    }).catch(() => []);
+    return [...this.blockedRequests.splice(0), ...inPage];
+  }
+
+  // Cross-origin frames get a session of their own when they load, so new
+  // ones are picked up before every act()
+  private async interceptFrames(): Promise<void> {
+    for (const [id, session] of frameSessions(this.page)) {
+      if (this.interceptedFrames.has(id)) continue;
+      this.interceptedFrames.add(id);
+      await this.intercept(session).catch((error) => {
+        console.log('Could not intercept order requests in a frame:', error);
+      });
+    }
+  }
+
+  private async intercept(session: CdpSession): Promise<void> {
+    session.on<RequestPausedEvent>('Fetch.requestPaused', ({ requestId, request }) => {
+      if (!isOrderRequest(request.method, request.url)) {
+        session.send('Fetch.continueRequest', { requestId }).catch(() => {});
+        return;
+      }
+      this.blockedRequests.push({
+        kind: 'request',
+        target: `${request.method.toUpperCase()} ${request.url}`.slice(0, 200),
+        url: this.page.url(),
+        at: new Date().toISOString(),
+      });
+      session.send('Fetch.failRequest', { requestId, errorReason: 'BlockedByClient' }).catch(() => {});
+    });
+    await session.send('Fetch.enable', {
+      patterns: ORDER_REQUEST_URL_PATTERNS.map(urlPattern => ({ urlPattern, requestStage: 'Request' })),
+    });
+  }
+
+  // Wraps the agent so that an act() which tried to place an order throws
+  // OrderSubmissionBlockedError, after onBlocked has seen each blocked action
+  guard(driver: AgentDriver, onBlocked: (action: BlockedAction) => void): AgentDriver {
+    const throwIfBlocked = async () => {
+      const actions = await this.takeBlocked();
+      if (actions.length > 0) {
+        actions.forEach(onBlocked);
+        throw new OrderSubmissionBlockedError(actions);
+      }
+    };
+
+    return {
+      act: async (instruction: string) => {
+        await this.interceptFrames();
+        const result = await driver.act(instruction).catch(async (error) => {
+          await throwIfBlocked();
+          throw error;
+        });
+        await throwIfBlocked();
+        return result;
+      },
+      extract: driver.extract.bind(driver),
+    };
+  }
+}
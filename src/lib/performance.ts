@@ -0,0 +1,254 @@
+import type { Page } from 'playwright';
+import { AUDITED_PAGE_LABELS, AuditedPage } from '@/lib/accessibility';
+import type { Finding } from '@/lib/agent';
+import { CdpSession, openCdpSession } from '@/lib/cdp';
+import type { AgentDriver, RunContext } from '@/lib/pipeline';
+import { rateVital, VitalDefinition, VITALS } from '@/lib/web-vitals';
+
+// Page performance of each funnel page, as the shopper experienced it: Core
+// Web Vitals from the Performance API, page weight from CDP network events.
+
+export interface PagePerformance {
+  page: AuditedPage;
+  url: string;
+  // Milliseconds from the start of the navigation until the first byte of the page
+  ttfb_ms: number | null;
+  lcp_ms: number | null;
+  // Largest burst of layout shifts (unitless), as CLS is defined
+  cls: number;
+  // Longest interaction the agent had with the page, a lab stand-in for INP;
+  // null until the agent interacts with the page
+  inp_ms: number | null;
+  // Main-thread time blocked by long tasks beyond their first 50ms
+  tbt_ms: number;
+  // Bytes over the network for the page and its subresources
+  transfer_bytes: number | null;
+}
+
+export interface PerformanceReport {
+  pages: PagePerformance[];
+}
+
+type Vitals = Omit<PagePerformance, 'page' | 'url'>;
+
+// What the in-page observers have seen so far in the current document
+interface Sample {
+  timeOrigin: number;
+  vitals: Vitals;
+}
+
+// Runs in the top frame of every document before any page script, so long
+// tasks and layout shifts from the very start of the load are seen. Must not
+// reference anything outside itself.
+function observeVitals() {
+  if (window.top !== window) return;
+  const vitals = { lcp: null as number | null, cls: 0, inp: null as number | null, tbt: 0 };
+  (window as unknown as { __shopaiVitals: typeof vitals }).__shopaiVitals = vitals;
+  // Resource timings beyond the default buffer of 250 would be dropped
+  performance.setResourceTimingBufferSize(1000);
+
+  const observe = (type: string, onEntry: (entry: PerformanceEntry) => void, options: object = {}) => {
+    try {
+      new PerformanceObserver(list => list.getEntries().forEach(onEntry)).observe({ type, buffered: true, ...options });
+    } catch {
+      // Entry type not supported by this browser
+    }
+  };
+
+  observe('largest-contentful-paint', (entry) => {
+    vitals.lcp = entry.startTime;
+  });
+
+  // CLS is the largest session window: shifts less than 1s apart, spanning at most 5s
+  let windowValue = 0;
+  let windowStart = 0;
+  let lastShift = 0;
+  observe('layout-shift', (entry) => {
+    const shift = entry as PerformanceEntry & { value: number; hadRecentInput: boolean };
+    if (shift.hadRecentInput) return;
+    if (windowValue > 0 && shift.startTime - lastShift < 1000 && shift.startTime - windowStart < 5000) {
+      windowValue += shift.value;
+    } else {
+      windowValue = shift.value;
+      windowStart = shift.startTime;
+    }
+    lastShift = shift.startTime;
+    vitals.cls = Math.max(vitals.cls, windowValue);
+  });
+
+  observe('event', (entry) => {
+    if ((entry as PerformanceEntry & { interactionId?: number }).interactionId) {
+      vitals.inp = Math.max(vitals.inp ?? 0, entry.duration);
+    }
+  }, { durationThreshold: 16 });
+
+  observe('longtask', (entry) => {
+    vitals.tbt += Math.max(0, entry.duration - 50);
+  });
+}
+
+// Measures each funnel page when the shopper reaches it, then keeps the
+// measurement up to date until they leave: layout shifts and interactions
+// keep coming while the agent uses the page. The page is re-read before
+// every act(), the only way the agent leaves a page.
+export class PerformanceMonitor {
+  private pages: PagePerformance[] = [];
+  private current: { entry: PagePerformance; timeOrigin: number } | null = null;
+  private session: CdpSession | null = null;
+  // Encoded bytes received, by the loader (document) that requested them
+  private loaderBytes = new Map<string, number>();
+  private requestLoaders = new Map<string, string>();
+
+  constructor(private page: Page) {}
+
+  // Must run before the first navigation. Without CDP, page weight falls
+  // back to the Performance API, which cannot see cross-origin responses
+  // that do not send Timing-Allow-Origin.
+  async install(): Promise<void> {
+    await this.page.addInitScript(observeVitals);
+
+    try {
+      const session = await openCdpSession(this.page);
+      session.on<{ requestId: string; loaderId: string }>('Network.requestWillBeSent', ({ requestId, loaderId }) => {
+        this.requestLoaders.set(requestId, loaderId);
+      });
+      session.on<{ requestId: string; encodedDataLength: number }>('Network.loadingFinished', ({ requestId, encodedDataLength }) => {
+        const loaderId = this.requestLoaders.get(requestId);
+        if (loaderId) {
+          this.loaderBytes.set(loaderId, (this.loaderBytes.get(loaderId) ?? 0) + encodedDataLength);
+          this.requestLoaders.delete(requestId);
+        }
+      });
+      await session.send('Network.enable');
+      this.session = session;
+    } catch (error) {
+      console.log('Could not watch network traffic, transfer sizes come from the Performance API:', error);
+    }
+  }
+
+  private async sample(): Promise<Sample | null> {
+    const measured = await this.page.evaluate(() => {
+      const observed = (window as unknown as { __shopaiVitals?: { lcp: number | null; cls: number; inp: number | null; tbt: number } }).__shopaiVitals;
+      const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+      const resources = performance.getEntriesByType('resource') as PerformanceResourceTiming[];
+      return {
+        timeOrigin: performance.timeOrigin,
+        observed: observed ?? null,
+        ttfb: navigation && navigation.responseStart > 0 ? navigation.responseStart : null,
+        transfer: (navigation?.transferSize ?? 0) + resources.reduce((sum, resource) => sum + resource.transferSize, 0),
+      };
+    }).catch(() => null);
+    if (!measured?.observed) {
+      return null;
+    }
+
+    const loaderId = this.session
+      ? await this.session.send<{ frameTree: { frame: { loaderId: string } } }>('Page.getFrameTree')
+        .then(({ frameTree }) => frameTree.frame.loaderId)
+        .catch(() => null)
+      : null;
+    const { observed } = measured;
+
+    return {
+      timeOrigin: measured.timeOrigin,
+      vitals: {
+        ttfb_ms: measured.ttfb === null ? null : Math.round(measured.ttfb),
+        lcp_ms: observed.lcp === null ? null : Math.round(observed.lcp),
+        cls: Math.round(observed.cls * 1000) / 1000,
+        inp_ms: observed.inp === null ? null : Math.round(observed.inp),
+        tbt_ms: Math.round(observed.tbt),
+        transfer_bytes: loaderId ? this.loaderBytes.get(loaderId) ?? 0 : measured.transfer || null,
+      },
+    };
+  }
+
+  // Records the page the shopper has just reached
+  async measure(page: AuditedPage): Promise<void> {
+    await this.refresh();
+    const sample = await this.sample();
+    if (!sample) {
+      return;
+    }
+    const entry = { page, url: this.page.url(), ...sample.vitals };
+    this.pages.push(entry);
+    this.current = { entry, timeOrigin: sample.timeOrigin };
+  }
+
+  // Updates the last measured page while the shopper is still on it
+  async refresh(): Promise<void> {
+    if (!this.current) {
+      return;
+    }
+    const sample = await this.sample();
+    if (sample?.timeOrigin === this.current.timeOrigin) {
+      Object.assign(this.current.entry, sample.vitals);
+    } else {
+      this.current = null;
+    }
+  }
+
+  // Wraps the agent so the current page is brought up to date before each
+  // act() that might leave it
+  track(driver: AgentDriver): AgentDriver {
+    return {
+      act: async (instruction: string) => {
+        await this.refresh();
+        return driver.act(instruction);
+      },
+      extract: driver.extract.bind(driver),
+    };
+  }
+
+  async report(): Promise<PerformanceReport> {
+    await this.refresh();
+    return { pages: this.pages };
+  }
+}
+
+// Measures the page the step has just reached. Observational: a failed
+// measurement is logged and the run goes on.
+export async function measurePerformance(context: RunContext, page: AuditedPage): Promise<void> {
+  try {
+    await context.performance?.measure(page);
+  } catch (error) {
+    console.log(`Performance measurement of ${page} failed:`, error);
+  }
+}
+
+const VITAL_ADVICE: Record<VitalDefinition['key'], string> = {
+  ttfb_ms: 'Cache pages at the edge (CDN), and look for slow server-side work such as uncached database queries or app proxies',
+  lcp_ms: 'Preload the hero image, serve it in a modern format at the displayed size, and avoid render-blocking scripts and styles',
+  cls: 'Reserve space for images, embeds and banners with width/height or aspect-ratio, and avoid inserting content above what is already shown',
+  inp_ms: 'Break up long event handlers, defer non-essential work with requestIdleCallback, and keep third-party scripts off the main thread',
+  tbt_ms: 'Split and defer JavaScript, remove unused apps and third-party tags, and move heavy work off the main thread',
+  transfer_bytes: 'Compress and resize images, lazy-load below-the-fold media, and drop unused scripts and fonts',
+};
+
+// One finding per metric that is not good on some page, rated by its worst
+// page: poor is a warning, needs improvement a suggestion
+export function performanceFindings(report: PerformanceReport): Finding[] {
+  const findings: Finding[] = [];
+
+  for (const vital of VITALS) {
+    const measured = report.pages
+      .map(page => ({ page, value: page[vital.key] }))
+      .filter((item): item is { page: PagePerformance; value: number } => item.value !== null);
+    const slow = measured.filter(item => rateVital(vital, item.value) !== 'good');
+    if (slow.length === 0) {
+      continue;
+    }
+
+    const worst = slow.reduce((a, b) => b.value > a.value ? b : a);
+    const poor = rateVital(vital, worst.value) === 'poor';
+    findings.push({
+      id: `perf-${vital.key.replace(/_(ms|bytes)$/, '').replace(/_/g, '-')}`,
+      category: poor ? 'warning' : 'suggestion',
+      title: poor ? `Poor ${vital.label}` : `${vital.label} Needs Improvement`,
+      description: `${vital.label} is ${vital.format(worst.value)} on the ${AUDITED_PAGE_LABELS[worst.page.page].toLowerCase()}; good is ${vital.format(vital.good)} or less`,
+      evidence: slow.map(({ page, value }) => `${AUDITED_PAGE_LABELS[page.page]}: ${vital.format(value)} (${page.url})`).join(', '),
+      recommendation: VITAL_ADVICE[vital.key],
+    });
+  }
+
+  return findings;
+}
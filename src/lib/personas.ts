@@ -0,0 +1,258 @@
+// Test shoppers the agent fills checkout forms as, one per market, so the
+// address, phone and postal code pass the store's validation, and the
+// button labels the prompts mention match the store's language.
+
+export type PersonaId = 'us' | 'gb' | 'de' | 'tr';
+
+export type VocabularyKey =
+  | 'products'
+  | 'allProducts'
+  | 'addToCart'
+  | 'addedToCart'
+  | 'sizeRequired'
+  | 'cart'
+  | 'checkout'
+  | 'guestCheckout'
+  | 'addAddress'
+  | 'save'
+  | 'shipping'
+  | 'continueToPayment'
+  | 'placeOrder'
+  | 'emailField'
+  | 'phoneField'
+  | 'firstNameField'
+  | 'lastNameField'
+  | 'fullNameField'
+  | 'addressField'
+  | 'cityField'
+  | 'postalCodeField'
+  | 'countryField';
+
+export interface Persona {
+  id: PersonaId;
+  // Language tag of the market, e.g. "en-GB"
+  locale: string;
+  email: string;
+  // As a local shopper would type it, without the country code
+  phone: string;
+  firstName: string;
+  lastName: string;
+  address: {
+    street: string;
+    city: string;
+    // State, district or similar, for markets whose forms ask for one
+    region?: { label: string; value: string };
+    neighborhood?: string;
+    postalCode: string;
+    // As it appears in a country dropdown
+    country: string;
+  };
+  // Price examples in the local currency format, to help spot product cards
+  prices: string[];
+  // Local labels, used alongside the English ones
+  vocabulary: Partial<Record<VocabularyKey, string[]>>;
+}
+
+// Stores in any market often keep some English labels, so prompts always
+// include these
+const ENGLISH: Record<VocabularyKey, string[]> = {
+  products: ['Products', 'Shop'],
+  allProducts: ['All Products', 'Shop All'],
+  addToCart: ['Add to Cart', 'Add to Bag', 'Buy Now'],
+  addedToCart: ['Added to cart'],
+  sizeRequired: ['Please select a size', 'Please select a variant', 'Select size before adding'],
+  cart: ['Cart', 'View Cart', 'Go to Cart'],
+  checkout: ['Checkout', 'Proceed to Checkout'],
+  guestCheckout: ['Continue as guest', 'Guest checkout'],
+  addAddress: ['Add new address'],
+  save: ['Save', 'Confirm'],
+  shipping: ['Shipping', 'Delivery'],
+  continueToPayment: ['Continue to payment', 'Proceed', 'Next'],
+  placeOrder: ['Pay Now', 'Place Order'],
+  emailField: ['Email'],
+  phoneField: ['Phone', 'Mobile'],
+  firstNameField: ['First Name'],
+  lastNameField: ['Last Name'],
+  fullNameField: ['Full Name'],
+  addressField: ['Address'],
+  cityField: ['City'],
+  postalCodeField: ['Postal Code', 'ZIP'],
+  countryField: ['Country'],
+};
+
+export const PERSONAS: Record<PersonaId, Persona> = {
+  us: {
+    id: 'us',
+    locale: 'en-US',
+    email: 'test@example.com',
+    phone: '2125550123',
+    firstName: 'Test',
+    lastName: 'Shopper',
+    address: {
+      street: '350 Fifth Avenue',
+      city: 'New York',
+      region: { label: 'State', value: 'New York' },
+      postalCode: '10118',
+      country: 'United States',
+    },
+    prices: ['$19.99', '$120.00'],
+    vocabulary: {
+      postalCodeField: ['ZIP Code'],
+    },
+  },
+  gb: {
+    id: 'gb',
+    locale: 'en-GB',
+    email: 'test@example.com',
+    phone: '07700900123',
+    firstName: 'Test',
+    lastName: 'Shopper',
+    address: {
+      street: '221B Baker Street',
+      city: 'London',
+      postalCode: 'NW1 6XE',
+      country: 'United Kingdom',
+    },
+    prices: ['£19.99', '£120.00'],
+    vocabulary: {
+      addToCart: ['Add to Basket'],
+      addedToCart: ['Added to basket'],
+      cart: ['Basket', 'View Basket'],
+      checkout: ['Go to Checkout'],
+      postalCodeField: ['Postcode'],
+      cityField: ['Town/City'],
+    },
+  },
+  de: {
+    id: 'de',
+    locale: 'de-DE',
+    email: 'test@example.com',
+    phone: '03012345678',
+    firstName: 'Max',
+    lastName: 'Mustermann',
+    address: {
+      street: 'Musterstraße 1',
+      city: 'Berlin',
+      postalCode: '10115',
+      country: 'Deutschland',
+    },
+    prices: ['19,99 €', '120,00 €'],
+    vocabulary: {
+      products: ['Produkte', 'Sortiment'],
+      allProducts: ['Alle Produkte'],
+      addToCart: ['In den Warenkorb'],
+      addedToCart: ['Zum Warenkorb hinzugefügt'],
+      sizeRequired: ['Bitte wähle eine Größe', 'Bitte Größe auswählen'],
+      cart: ['Warenkorb'],
+      checkout: ['Zur Kasse'],
+      guestCheckout: ['Als Gast bestellen', 'Weiter als Gast'],
+      addAddress: ['Neue Adresse hinzufügen'],
+      save: ['Speichern', 'Bestätigen'],
+      shipping: ['Versand', 'Lieferung'],
+      continueToPayment: ['Weiter zur Zahlung', 'Weiter'],
+      placeOrder: ['Jetzt kaufen', 'Zahlungspflichtig bestellen'],
+      emailField: ['E-Mail'],
+      phoneField: ['Telefon'],
+      firstNameField: ['Vorname'],
+      lastNameField: ['Nachname'],
+      addressField: ['Straße und Hausnummer'],
+      cityField: ['Ort', 'Stadt'],
+      postalCodeField: ['PLZ', 'Postleitzahl'],
+      countryField: ['Land'],
+    },
+  },
+  tr: {
+    id: 'tr',
+    locale: 'tr-TR',
+    email: 'test@example.com',
+    phone: '5551234567',
+    firstName: 'Test',
+    lastName: 'Müşteri',
+    address: {
+      street: 'Test Sokak No:1 Daire:2',
+      city: 'İstanbul',
+      region: { label: 'District / İlçe', value: 'Kadıköy' },
+      neighborhood: 'Test Mahallesi',
+      postalCode: '34710',
+      country: 'Türkiye',
+    },
+    prices: ['100 TL', '455,00 TL'],
+    vocabulary: {
+      products: ['Ürünler'],
+      allProducts: ['Tüm Ürünler'],
+      addToCart: ['Sepete Ekle'],
+      addedToCart: ['Sepete eklendi'],
+      sizeRequired: ['Beden seçmelisin', 'Lütfen beden seçiniz'],
+      cart: ['Sepet', 'Sepetim'],
+      checkout: ['Ödeme', 'Ödemeye Geç', 'Satın Al'],
+      guestCheckout: ['Misafir olarak devam et', 'Üye olmadan devam'],
+      addAddress: ['Yeni adres ekle'],
+      save: ['Kaydet', 'Onayla'],
+      shipping: ['Kargo', 'Teslimat'],
+      continueToPayment: ['Ödemeye Geç', 'Devam Et', 'Sonraki Adım'],
+      placeOrder: ['Ödeme Yap', 'Siparişi Tamamla'],
+      emailField: ['E-posta'],
+      phoneField: ['Telefon', 'Cep Telefonu'],
+      firstNameField: ['Ad'],
+      lastNameField: ['Soyad'],
+      fullNameField: ['Ad Soyad'],
+      addressField: ['Adres'],
+      cityField: ['İl', 'Şehir'],
+      postalCodeField: ['Posta Kodu'],
+      countryField: ['Ülke'],
+    },
+  },
+};
+
+export const PERSONA_IDS = Object.keys(PERSONAS) as PersonaId[];
+
+export const DEFAULT_PERSONA: PersonaId = 'us';
+
+export function isPersonaId(value: unknown): value is PersonaId {
+  return PERSONA_IDS.includes(value as PersonaId);
+}
+
+// English and local labels, English first
+export function vocabulary(persona: Persona, key: VocabularyKey): string[] {
+  return [...new Set([...ENGLISH[key], ...(persona.vocabulary[key] ?? [])])];
+}
+
+// The same labels quoted for prompts: "Add to Cart", "Sepete Ekle"
+export function labels(persona: Persona, key: VocabularyKey): string {
+  return vocabulary(persona, key).map(word => `"${word}"`).join(', ');
+}
+
+const TLD_PERSONAS: Record<string, PersonaId> = {
+  us: 'us',
+  uk: 'gb',
+  de: 'de',
+  tr: 'tr',
+};
+
+// Picks the market a store sells to: a country TLD says the most about which
+// addresses its checkout accepts, then <html lang> (region first, e.g. en-GB,
+// then language), then the default.
+export function inferPersona(storeUrl: string, htmlLang?: string | null): Persona {
+  let hostname = '';
+  try {
+    hostname = new URL(storeUrl).hostname;
+  } catch {
+    // Not a URL; fall through to the page language
+  }
+  const tld = hostname.split('.').pop() ?? '';
+  if (TLD_PERSONAS[tld]) {
+    return PERSONAS[TLD_PERSONAS[tld]];
+  }
+
+  const [language, region] = (htmlLang ?? '').toLowerCase().split(/[-_]/);
+  if (region && isPersonaId(region)) {
+    return PERSONAS[region];
+  }
+  if (region === 'uk') {
+    return PERSONAS.gb;
+  }
+  if (language === 'de' || language === 'tr') {
+    return PERSONAS[language];
+  }
+  return PERSONAS[DEFAULT_PERSONA];
+}
@@ -0,0 +1,107 @@
+import type { Page } from 'playwright';
+import type { z } from 'zod';
+import type { Finding, RunMetrics, TimelineEvent } from '@/lib/agent';
+import type { DeviceProfile } from '@/lib/devices';
+import type { PageWait, SettleOptions } from '@/lib/page-settle';
+import { OrderSubmissionBlockedError, orderSubmissionFinding } from '@/lib/payment-guard';
+import type { PerformanceMonitor } from '@/lib/performance';
+import type { PopupDismissal } from '@/lib/popups';
+import type { Persona } from '@/lib/personas';
+
+// The part of Stagehand the steps use. Anything implementing it can drive a
+// run, e.g. the scripted stand-in the offline harness uses.
+export interface AgentDriver {
+  act(instruction: string): Promise<unknown>;
+  // Answers are validated against the schema, so steps branch on typed
+  // fields rather than on the wording of a free-text answer
+  extract<T extends z.ZodTypeAny>(instruction: string, schema: T): Promise<z.infer<T>>;
+}
+
+// State shared by every step of a run. Steps read and update it in place:
+// the page they drive, what they observed (timeline, findings) and how far
+// the shopper got (metrics).
+export interface RunContext {
+  runId: string;
+  storeUrl: string;
+  stagehand: AgentDriver;
+  page: Page;
+  signal?: AbortSignal;
+  // Who the agent shops as: form data and the button labels to look for
+  persona: Persona;
+  // Device the browser emulates; mobile runs add mobile usability checks
+  device: DeviceProfile;
+  // Scan each funnel page with axe-core as it is reached
+  accessibility: boolean;
+  // Measures page performance of each funnel page; null when not measured
+  performance: PerformanceMonitor | null;
+  // Popups closed so far, before each step; null when popups are left alone
+  popups: PopupDismissal[] | null;
+  // How long the shopper waited on the store at each step so far; timing
+  // metrics add these up
+  waits: PageWait[];
+  // Last URL a step navigated to
+  currentUrl: string;
+  timeline: TimelineEvent[];
+  findings: Finding[];
+  metrics: RunMetrics;
+  // Appends to the timeline and streams the event to progress listeners
+  recordEvent: (event: TimelineEvent) => void;
+  // Waits for the page to settle after an action and records the wait under
+  // label, e.g. "Open product page"
+  settle: (label: string, options?: SettleOptions) => Promise<void>;
+}
+
+// One stage of the purchase funnel.
+export interface FunnelStep {
+  // Reported as the run phase while the step runs, and as drop_off_step if it fails
+  name: string;
+  run(context: RunContext): Promise<void>;
+  // Success criteria, checked after run() returns. A step that is not
+  // successful ends the funnel: later steps are skipped.
+  isSuccessful(context: RunContext): boolean;
+  // The step leads up to the order button, so a blocked order submission in
+  // it completes the funnel instead of dropping off
+  endsAtOrderButton?: boolean;
+  // Turns an error thrown by run() into findings. The funnel then drops off
+  // at this step.
+  onError?(context: RunContext, error: unknown): void;
+}
+
+export interface PipelineHooks {
+  // Awaited before the step runs
+  onStepStart?: (step: FunnelStep, context: RunContext) => void | Promise<void>;
+}
+
+// Runs steps in order until one fails. Aborts are never swallowed: they
+// propagate so the run can be reported as cancelled or timed out. A blocked
+// order submission ends the funnel without a drop-off in the step that leads
+// up to the order button, and is a drop-off in any earlier step.
+export async function runPipeline(steps: FunnelStep[], context: RunContext, hooks: PipelineHooks = {}): Promise<void> {
+  for (const step of steps) {
+    context.signal?.throwIfAborted();
+    await hooks.onStepStart?.(step, context);
+
+    try {
+      await step.run(context);
+    } catch (error) {
+      context.signal?.throwIfAborted();
+      if (error instanceof OrderSubmissionBlockedError && step.endsAtOrderButton) {
+        console.log(`Step ${step.name} stopped:`, error.message);
+        return;
+      }
+      console.log(`Step ${step.name} failed:`, error);
+      if (error instanceof OrderSubmissionBlockedError) {
+        context.findings.push(orderSubmissionFinding(error));
+      } else {
+        step.onError?.(context, error);
+      }
+      context.metrics.drop_off_step = step.name;
+      return;
+    }
+
+    if (!step.isSuccessful(context)) {
+      context.metrics.drop_off_step = step.name;
+      return;
+    }
+  }
+}
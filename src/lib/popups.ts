@@ -0,0 +1,314 @@
+import type { Finding } from '@/lib/agent';
+import type { RunContext } from '@/lib/pipeline';
+
+// Closes the popups a shopper has to get out of the way before they can shop:
+// cookie consent banners, newsletter signups, country/currency prompts and
+// opened chat windows. They are looked for before every step and closed
+// directly in the page, without asking the model, so they cannot swallow the
+// clicks of the step's act() calls. What they cost the shopper is reported as
+// one finding.
+
+export type PopupKind = 'cookie-consent' | 'newsletter' | 'geo-redirect' | 'chat-widget';
+
+const POPUP_LABELS: Record<PopupKind, string> = {
+  'cookie-consent': 'cookie consent banner',
+  newsletter: 'newsletter popup',
+  'geo-redirect': 'country/currency prompt',
+  'chat-widget': 'chat window',
+};
+
+export interface PopupDismissal {
+  kind: PopupKind;
+  // Consent platform or widget vendor, e.g. "OneTrust"; null for a store's own popup
+  provider: string | null;
+  // Label of the control that was clicked, or "hidden" for chat windows
+  control: string;
+  // Page the popup was on
+  url: string;
+  // False when the popup was still there after the click
+  dismissed: boolean;
+  // From finding the popup until the store had settled after it was closed
+  waited_ms: number;
+}
+
+// Popups closed before a single step at most; closing a consent banner often
+// lets a newsletter popup in
+const MAX_POPUPS_PER_STEP = 5;
+
+// Chat widgets are only closed when open: a launcher bubble is in nobody's way
+const MIN_CHAT_SHARE = 0.15;
+
+interface ProviderRule {
+  provider: string;
+  kind: PopupKind;
+  root: string;
+  // Button to click; chat widgets without one are hidden
+  control: string | null;
+  // The widget renders into root's shadow DOM
+  shadow?: boolean;
+}
+
+// Known consent platforms and widgets, recognised by their own markup. Consent
+// is accepted, as most shoppers do, so the store behaves as it would for them.
+// Platforms that render into a cross-origin iframe cannot be reached here.
+const PROVIDER_RULES: ProviderRule[] = [
+  { provider: 'OneTrust', kind: 'cookie-consent', root: '#onetrust-banner-sdk', control: '#onetrust-accept-btn-handler' },
+  { provider: 'Cookiebot', kind: 'cookie-consent', root: '#CybotCookiebotDialog', control: '#CybotCookiebotDialogBodyLevelButtonLevelOptinAllowAll, #CybotCookiebotDialogBodyButtonAccept' },
+  { provider: 'Usercentrics', kind: 'cookie-consent', root: '#usercentrics-root', control: '[data-testid="uc-accept-all-button"]', shadow: true },
+  { provider: 'Didomi', kind: 'cookie-consent', root: '#didomi-host', control: '#didomi-notice-agree-button' },
+  { provider: 'TrustArc', kind: 'cookie-consent', root: '#truste-consent-track', control: '#truste-consent-button' },
+  { provider: 'Quantcast', kind: 'cookie-consent', root: '.qc-cmp2-container', control: '.qc-cmp2-summary-buttons button[mode="primary"]' },
+  { provider: 'Shopify', kind: 'cookie-consent', root: '#shopify-pc__banner', control: '#shopify-pc__banner__btn-accept' },
+  { provider: 'CookieYes', kind: 'cookie-consent', root: '.cky-consent-container', control: '.cky-btn-accept' },
+  { provider: 'Complianz', kind: 'cookie-consent', root: '#cmplz-cookiebanner-container', control: '.cmplz-accept' },
+  { provider: 'Osano', kind: 'cookie-consent', root: '.osano-cm-dialog', control: '.osano-cm-accept-all' },
+  { provider: 'iubenda', kind: 'cookie-consent', root: '#iubenda-cs-banner', control: '.iubenda-cs-accept-btn' },
+  { provider: 'Klaviyo', kind: 'newsletter', root: '.klaviyo-form[role="dialog"], [data-testid="POPUP"]', control: '.klaviyo-close-form' },
+  { provider: 'Intercom', kind: 'chat-widget', root: '#intercom-container', control: null },
+  { provider: 'Zendesk', kind: 'chat-widget', root: '#webWidget, iframe[title="Messaging window"]', control: null },
+  { provider: 'Tidio', kind: 'chat-widget', root: '#tidio-chat', control: null },
+  { provider: 'Gorgias', kind: 'chat-widget', root: '#gorgias-chat-container', control: null },
+  { provider: 'Drift', kind: 'chat-widget', root: '#drift-widget-container', control: null },
+  { provider: 'HubSpot', kind: 'chat-widget', root: '#hubspot-messages-iframe-container', control: null },
+  { provider: 'Shopify Inbox', kind: 'chat-widget', root: '#ShopifyChat', control: null },
+];
+
+// A store's own popups: dialogs and popup or modal containers that float over
+// the page, told apart by their wording
+const CANDIDATE_SELECTOR = [
+  '[role="dialog"]',
+  '[role="alertdialog"]',
+  '[aria-modal="true"]',
+  'dialog[open]',
+  '[id*="popup" i]',
+  '[class*="popup" i]',
+  '[id*="modal" i]',
+  '[class*="modal" i]',
+  '[id*="cookie" i]',
+  '[class*="cookie" i]',
+  '[id*="consent" i]',
+  '[class*="consent" i]',
+].join(', ');
+
+// Cart drawers, login and search dialogs are part of shopping and stay open
+const EXCLUDED_CONTENT_SELECTOR = 'a[href*="cart" i], a[href*="checkout" i], form[action*="cart" i], [name="checkout"], input[type="password"], input[type="search"]';
+
+// Words a store's popup is recognised by, checked in this order
+const POPUP_KEYWORDS: Record<Exclude<PopupKind, 'chat-widget'>, string[]> = {
+  'cookie-consent': ['cookie', 'consent', 'gdpr', 'çerez', 'datenschutz'],
+  newsletter: ['newsletter', 'subscribe', 'sign up', 'signup', '% off', 'discount', 'bülten', 'abone', 'indirim', 'rabatt', 'anmelden'],
+  'geo-redirect': ['currency', 'country', 'region', 'ship to', 'shipping to', 'looks like you', 'ülke', 'para birimi', 'währung', 'lieferland'],
+};
+
+// Labels of the controls that close a popup, most preferred first. A label
+// matches when it starts with one of these followed by a non-letter.
+const CLOSE_LABELS = ['close', 'dismiss', 'no thanks', 'no, thanks', 'not now', 'maybe later', 'continue without', 'kapat', 'hayır', 'schließen', 'nein danke', 'fermer', 'cerrar', '×', '✕', '✖', 'x'];
+const ACCEPT_LABELS = ['accept', 'allow', 'agree', 'i agree', 'ok', 'okay', 'got it', 'i understand', 'kabul', 'tümünü kabul', 'onayla', 'akzeptieren', 'alle akzeptieren', 'zustimmen', 'einverstanden', 'accepter', 'tout accepter', 'aceptar'];
+// Geo prompts offer to send the shopper to another store; the run stays on
+// the one it was asked to audit
+const STAY_LABELS = ['stay', 'remain', 'continue shopping', 'no, stay', 'bleiben'];
+
+const CONTROL_LABELS: Record<PopupKind, string[]> = {
+  'cookie-consent': [...ACCEPT_LABELS, ...CLOSE_LABELS],
+  newsletter: CLOSE_LABELS,
+  'geo-redirect': [...STAY_LABELS, ...CLOSE_LABELS],
+  'chat-widget': CLOSE_LABELS,
+};
+
+interface PopupConfig {
+  providers: ProviderRule[];
+  candidates: string;
+  excluded: string;
+  keywords: Record<string, string[]>;
+  controls: Record<PopupKind, string[]>;
+  minChatShare: number;
+}
+
+interface ClosedPopup {
+  kind: PopupKind;
+  provider: string | null;
+  control: string;
+}
+
+// Finds the first visible popup not tried before, clicks its close (or
+// accept) control and returns what it closed; null when there is none. Runs
+// in the page, so it must not reference anything outside itself. The popup is
+// kept in window.__shopaiPopup so the caller can check it has gone.
+function closeNextPopup(config: PopupConfig): ClosedPopup | null {
+  const ATTEMPTED = 'data-shopai-popup';
+  const win = window as unknown as { __shopaiPopup?: Element };
+  const viewport = window.innerWidth * window.innerHeight;
+
+  const isVisible = (element: Element) => {
+    const rect = element.getBoundingClientRect();
+    const style = getComputedStyle(element);
+    return rect.width > 0 && rect.height > 0 && style.display !== 'none' && style.visibility !== 'hidden' &&
+      Number(style.opacity) > 0 && element.getAttribute('aria-hidden') !== 'true';
+  };
+  // Fixed or sticky, on itself or an ancestor, or in the top layer
+  const isFloating = (element: Element) => {
+    if (element.matches('dialog[open], [aria-modal="true"]')) return true;
+    for (let current: Element | null = element; current && current !== document.body; current = current.parentElement) {
+      const { position } = getComputedStyle(current);
+      if (position === 'fixed' || position === 'sticky') return true;
+    }
+    return false;
+  };
+
+  const normalize = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim().toLowerCase();
+  // Letters are the characters with an upper and a lower case
+  const isLetter = (char: string) => char.toLowerCase() !== char.toUpperCase();
+  const matchesLabel = (text: string, label: string) => text === label ||
+    (label.length > 1 && text.startsWith(label) && !isLetter(text.charAt(label.length)));
+  const labelOf = (element: Element) => normalize(
+    element.getAttribute('aria-label') || element.getAttribute('title') ||
+    (element instanceof HTMLInputElement ? element.value : element.textContent)
+  );
+
+  const findControl = (root: Element | ShadowRoot, labels: string[]) => {
+    const controls = [...root.querySelectorAll('button, a, [role="button"], input[type="button"], input[type="submit"]')]
+      .filter(isVisible);
+    for (const label of labels) {
+      const control = controls.find(element => matchesLabel(labelOf(element), label));
+      if (control) return control;
+    }
+    // Icon-only close buttons
+    return controls.find(element => /close|dismiss/i.test(`${element.id} ${element.getAttribute('class') ?? ''}`)) ?? null;
+  };
+
+  const close = (root: Element, control: Element | null, closed: Omit<ClosedPopup, 'control'>) => {
+    root.setAttribute(ATTEMPTED, '');
+    win.__shopaiPopup = root;
+    if (!control) {
+      (root as HTMLElement).style.setProperty('display', 'none', 'important');
+      return { ...closed, control: 'hidden' };
+    }
+    const label = labelOf(control);
+    (control as HTMLElement).click();
+    return { ...closed, control: label || 'close button' };
+  };
+
+  for (const rule of config.providers) {
+    const root = [...document.querySelectorAll(rule.root)].find(element => !element.hasAttribute(ATTEMPTED) && isVisible(element));
+    if (!root) continue;
+    if (rule.kind === 'chat-widget') {
+      const rect = root.getBoundingClientRect();
+      if (rect.width * rect.height < viewport * config.minChatShare) continue;
+    }
+    const scope = rule.shadow ? root.shadowRoot : root;
+    if (!scope) continue;
+    const control = rule.control
+      ? [...scope.querySelectorAll(rule.control)].find(isVisible) ?? findControl(scope, config.controls[rule.kind])
+      : findControl(scope, config.controls[rule.kind]);
+    // A chat window that cannot be minimised is hidden; other popups need a control
+    if (!control && rule.kind !== 'chat-widget') continue;
+    return close(root, control, { kind: rule.kind, provider: rule.provider });
+  }
+
+  const candidates = [...document.querySelectorAll(config.candidates)]
+    .filter(element => element !== document.body && element !== document.documentElement)
+    .filter(element => !element.hasAttribute(ATTEMPTED) && isVisible(element) && isFloating(element));
+  for (const candidate of candidates) {
+    // The outermost container stands for the popup
+    if (candidates.some(other => other !== candidate && other.contains(candidate))) continue;
+    if (candidate.querySelector(config.excluded)) continue;
+
+    const text = normalize(`${candidate.getAttribute('aria-label') ?? ''} ${candidate.id} ${candidate.getAttribute('class') ?? ''} ${(candidate.textContent ?? '').slice(0, 2000)}`);
+    const kind = Object.keys(config.keywords).find(key => config.keywords[key].some(keyword => text.includes(keyword))) as PopupKind | undefined;
+    if (!kind) continue;
+    const control = findControl(candidate, config.controls[kind]);
+    if (!control) continue;
+    return close(candidate, control, { kind, provider: null });
+  }
+
+  return null;
+}
+
+function popupConfig(): PopupConfig {
+  return {
+    providers: PROVIDER_RULES,
+    candidates: CANDIDATE_SELECTOR,
+    excluded: EXCLUDED_CONTENT_SELECTOR,
+    keywords: POPUP_KEYWORDS,
+    controls: CONTROL_LABELS,
+    minChatShare: MIN_CHAT_SHARE,
+  };
+}
+
+function describe(popup: { kind: PopupKind; provider: string | null }): string {
+  return `${POPUP_LABELS[popup.kind]}${popup.provider ? ` (${popup.provider})` : ''}`;
+}
+
+// Closes the popups over the current page and records each in the timeline
+// and in context.popups. Observational like the other checks: a page that
+// cannot be read is left as it is and the step goes on.
+export async function dismissPopups(context: RunContext): Promise<void> {
+  const { page, popups } = context;
+  if (!popups) {
+    return;
+  }
+
+  for (let closed = 0; closed < MAX_POPUPS_PER_STEP; closed++) {
+    const started = Date.now();
+    const popup = await page.evaluate(closeNextPopup, popupConfig()).catch((error) => {
+      console.log('Popup check failed:', error);
+      return null;
+    });
+    if (!popup) {
+      return;
+    }
+
+    await context.settle(`Dismiss ${POPUP_LABELS[popup.kind]}`, { since: started });
+    const waited_ms = Date.now() - started;
+    const stillOpen = await page.evaluate(() => {
+      const element = (window as unknown as { __shopaiPopup?: Element }).__shopaiPopup;
+      if (!element?.isConnected) return false;
+      const rect = element.getBoundingClientRect();
+      const style = getComputedStyle(element);
+      return rect.width > 0 && rect.height > 0 && style.display !== 'none' && style.visibility !== 'hidden';
+    }).catch(() => false);
+
+    const url = page.url();
+    console.log(`${describe(popup)}: ${popup.control === 'hidden' ? 'hidden' : `clicked "${popup.control}"`}, ${stillOpen ? 'still open' : 'closed'} after ${waited_ms}ms`);
+    popups.push({ ...popup, url, dismissed: !stillOpen, waited_ms });
+    context.recordEvent({
+      timestamp: new Date().toISOString(),
+      action: `${stillOpen ? 'Could not dismiss' : 'Dismissed'} ${describe(popup)}`,
+      url,
+      success: !stillOpen,
+    });
+  }
+}
+
+const POPUP_ADVICE: Record<PopupKind, string> = {
+  'cookie-consent': 'Show cookie consent as a compact banner that leaves the page usable, and remember the choice across pages',
+  newsletter: 'Delay newsletter popups until the shopper has browsed a few pages or is about to leave, and keep them off product and checkout pages',
+  'geo-redirect': 'Pick country and currency from the visitor\'s location and offer a switcher in the header instead of a blocking prompt',
+  'chat-widget': 'Keep the chat widget collapsed to its launcher until the shopper opens it',
+};
+
+// One finding for all the popups the shopper had to close: a suggestion when
+// they were only consent banners, which stores are often required to show, a
+// warning otherwise or when one could not be closed
+export function popupFindings(popups: PopupDismissal[]): Finding[] {
+  if (popups.length === 0) {
+    return [];
+  }
+
+  const seconds = Math.round(popups.reduce((sum, popup) => sum + popup.waited_ms, 0) / 100) / 10;
+  const stuck = popups.filter(popup => !popup.dismissed).length;
+  const kinds = [...new Set(popups.map(popup => popup.kind))];
+  const onlyConsent = kinds.every(kind => kind === 'cookie-consent') && stuck === 0;
+  const count = `${popups.length} popup${popups.length === 1 ? '' : 's'}`;
+
+  return [{
+    id: 'popup-friction',
+    category: onlyConsent ? 'suggestion' : 'warning',
+    title: 'Popups Interrupted Shopping',
+    description: `${count} had to be closed before the shopper could go on, costing ${seconds}s of waiting${stuck > 0 ? `; ${stuck} could not be closed` : ''}`,
+    evidence: popups
+      .map(popup => `${describe(popup)} on ${popup.url}: ${!popup.dismissed ? 'still open' : popup.control === 'hidden' ? 'hidden' : `clicked "${popup.control}"`}, ${(popup.waited_ms / 1000).toFixed(1)}s`)
+      .join('; '),
+    recommendation: kinds.map(kind => POPUP_ADVICE[kind]).join('. '),
+  }];
+}
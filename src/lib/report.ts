@@ -0,0 +1,230 @@
+import type { AnalysisResult, Finding } from '@/lib/agent';
+import { artifactContentType, artifactUrl, getArtifactStore } from '@/lib/artifact-store';
+import { stagehandOptions } from '@/lib/browser';
+import { DEVICES } from '@/lib/devices';
+import { CATEGORY_LABELS, groupFindings } from '@/lib/findings';
+import type { RunRecord } from '@/lib/run-repository';
+
+// Standalone report of a finished run, for emailing to store owners. The
+// HTML has its styles inline and its screenshots embedded as data URIs, so
+// the file opens anywhere on its own; the PDF is the same page printed.
+
+const BRAND = 'Checkout Ready';
+const BRAND_COLOR = '#f97316';
+
+const CATEGORY_COLORS: Record<Finding['category'], { text: string; background: string; border: string }> = {
+  critical: { text: '#dc2626', background: '#fef2f2', border: '#ef4444' },
+  warning: { text: '#ca8a04', background: '#fefce8', border: '#eab308' },
+  suggestion: { text: '#2563eb', background: '#eff6ff', border: '#3b82f6' },
+  positive: { text: '#16a34a', background: '#f0fdf4', border: '#22c55e' },
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function scoreColor(score: number): string {
+  return score >= 70 ? '#22c55e' : score >= 40 ? '#eab308' : '#ef4444';
+}
+
+// Screenshots of the run as data URIs, keyed by their artifact URL. Missing
+// artifacts are left out and their images skipped.
+async function embedScreenshots(runId: string, result: AnalysisResult): Promise<Map<string, string>> {
+  const prefix = artifactUrl(runId, '');
+  const urls = new Set(
+    [...result.findings, ...result.timeline]
+      .map(item => item.screenshot)
+      .filter((url): url is string => !!url?.startsWith(prefix))
+  );
+
+  const store = getArtifactStore();
+  const embedded = new Map<string, string>();
+  await Promise.all([...urls].map(async (url) => {
+    const name = url.slice(prefix.length);
+    const data = await store.get(runId, name).catch(() => null);
+    if (data) {
+      embedded.set(url, `data:${artifactContentType(name)};base64,${data.toString('base64')}`);
+    }
+  }));
+  return embedded;
+}
+
+function metricCell(label: string, value: string, color = '#111827'): string {
+  return `<div class="metric"><div class="metric-value" style="color:${color}">${escapeHtml(value)}</div><div class="muted">${escapeHtml(label)}</div></div>`;
+}
+
+function check(value: boolean): [string, string] {
+  return value ? ['✓', '#22c55e'] : ['✗', '#ef4444'];
+}
+
+function renderFinding(finding: Finding, screenshots: Map<string, string>): string {
+  const colors = CATEGORY_COLORS[finding.category];
+  const screenshot = finding.screenshot && screenshots.get(finding.screenshot);
+  const isIssue = finding.category !== 'positive';
+
+  return `
+    <div class="finding" style="background:${colors.background};border-left-color:${colors.border}">
+      ${isIssue ? `<div class="label" style="color:${colors.text}">${CATEGORY_LABELS[finding.category]}</div>` : ''}
+      <h3>${escapeHtml(finding.title)}</h3>
+      <p>${escapeHtml(finding.description)}</p>
+      ${isIssue ? `<p class="recommendation"><strong>Recommendation:</strong> ${escapeHtml(finding.recommendation)}</p>` : ''}
+      ${screenshot ? `<img class="screenshot" src="${screenshot}" alt="Screenshot: ${escapeHtml(finding.title)}">` : ''}
+    </div>`;
+}
+
+const STYLES = `
+  @page { size: A4; margin: 14mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; background: #fafafa; color: #111827; font: 14px/1.5 -apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif; }
+  .page { max-width: 860px; margin: 0 auto; padding: 32px 16px; }
+  .brand { color: ${BRAND_COLOR}; font-weight: 600; letter-spacing: 0.02em; margin-bottom: 16px; }
+  .card { background: #fff; border-radius: 16px; box-shadow: 0 4px 12px rgba(0,0,0,0.06); padding: 24px; margin-bottom: 20px; break-inside: avoid; }
+  h1 { font-size: 24px; margin: 0 0 4px; }
+  h2 { font-size: 18px; margin: 0 0 12px; }
+  h3 { font-size: 15px; margin: 4px 0 0; }
+  p { margin: 4px 0 0; }
+  .muted { color: #6b7280; font-size: 13px; }
+  .header { display: flex; justify-content: space-between; align-items: center; }
+  .score { font-size: 48px; font-weight: 700; text-align: right; line-height: 1; }
+  .breakdown { border-top: 1px solid #f3f4f6; margin-top: 16px; padding-top: 12px; }
+  .row { display: flex; justify-content: space-between; color: #374151; }
+  .row.total { border-top: 1px solid #f3f4f6; margin-top: 6px; padding-top: 6px; font-weight: 600; color: #111827; }
+  .metrics { display: grid; grid-template-columns: repeat(5, 1fr); gap: 12px; margin-bottom: 20px; }
+  .metric { background: #fff; border-radius: 12px; box-shadow: 0 2px 6px rgba(0,0,0,0.05); padding: 14px; }
+  .metric-value { font-size: 20px; font-weight: 600; }
+  .finding { border-left: 4px solid; border-radius: 8px; padding: 14px; margin-top: 12px; break-inside: avoid; }
+  .finding p { color: #4b5563; }
+  .label { font-size: 11px; font-weight: 600; text-transform: uppercase; }
+  .recommendation { border-top: 1px solid #e5e7eb; margin-top: 10px; padding-top: 10px; }
+  .screenshot { display: block; max-width: 100%; max-height: 320px; margin-top: 10px; border: 1px solid #e5e7eb; border-radius: 6px; }
+  .error { color: #dc2626; }
+  .step { display: flex; gap: 12px; padding: 8px 0; border-top: 1px solid #f3f4f6; break-inside: avoid; }
+  .step:first-of-type { border-top: 0; }
+  .dot { width: 8px; height: 8px; border-radius: 50%; margin-top: 7px; flex: none; }
+  .step img { display: block; width: 240px; margin-top: 6px; border: 1px solid #e5e7eb; border-radius: 4px; }
+  .footer { text-align: center; color: #9ca3af; font-size: 12px; }
+`;
+
+// The whole report as one HTML document
+export async function renderReportHtml(record: RunRecord & { result: AnalysisResult }): Promise<string> {
+  const { result } = record;
+  const screenshots = await embedScreenshots(record.run_id, result);
+  const { positive, issues } = groupFindings(result.findings);
+  const { metrics, score_breakdown: breakdown } = result;
+  const device = result.device ? DEVICES[result.device] : null;
+  const finishedAt = new Date(record.completed_at ?? record.updated_at);
+
+  const [cartMark, cartColor] = check(metrics.add_to_cart_success);
+  const [checkoutMark, checkoutColor] = check(metrics.checkout_reached);
+  const [formMark, formColor] = check(metrics.checkout_form_filled);
+
+  const breakdownHtml = breakdown ? `
+    <div class="breakdown">
+      <h2>How this score was calculated</h2>
+      ${[...breakdown.funnel, { label: 'UX quality', points: breakdown.ux_base }, ...breakdown.deductions].map(item => `
+        <div class="row"><span>${escapeHtml(item.label)}</span><span>${item.points > 0 ? `+${item.points}` : item.points}</span></div>`).join('')}
+      <div class="row total"><span>Total</span><span>${breakdown.total}</span></div>
+    </div>` : '';
+
+  const timelineHtml = result.timeline.map(event => {
+    const screenshot = event.screenshot && screenshots.get(event.screenshot);
+    return `
+      <div class="step">
+        <div class="dot" style="background:${event.success ? '#22c55e' : '#ef4444'}"></div>
+        <div>
+          <div>${escapeHtml(event.action)}</div>
+          <div class="muted">${escapeHtml(event.url)} · ${new Date(event.timestamp).toISOString().slice(11, 19)} UTC</div>
+          ${screenshot ? `<img src="${screenshot}" alt="Screenshot: ${escapeHtml(event.action)}">` : ''}
+        </div>
+      </div>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${BRAND} report · ${escapeHtml(result.store_url)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<div class="page">
+  <div class="brand">${BRAND} · Checkout Report</div>
+
+  <div class="card">
+    <div class="header">
+      <div>
+        <h1>${escapeHtml(result.store_url)}</h1>
+        <div class="muted">Audited ${finishedAt.toUTCString()}${device ? ` · ${escapeHtml(device.label)}` : ''}</div>
+        ${result.status !== 'completed' ? `<p class="error">Analysis ${result.status}${result.error ? `: ${escapeHtml(result.error)}` : ''}</p>` : ''}
+      </div>
+      <div>
+        <div class="score" style="color:${scoreColor(result.score)}">${result.score}</div>
+        <div class="muted">Checkout Score</div>
+      </div>
+    </div>
+    ${breakdownHtml}
+  </div>
+
+  <div class="metrics">
+    ${metricCell('Add to Cart', cartMark, cartColor)}
+    ${metricCell('Time to Cart', `${metrics.time_to_add_to_cart_seconds ?? '-'}s`)}
+    ${metricCell('Checkout Reached', checkoutMark, checkoutColor)}
+    ${metricCell('Form Filled', formMark, formColor)}
+    ${metricCell('Drop-off Step', metrics.drop_off_step ?? 'None')}
+  </div>
+
+  ${positive.length > 0 ? `
+  <div class="card">
+    <h2>What's Working Well</h2>
+    ${positive.map(finding => renderFinding(finding, screenshots)).join('')}
+  </div>` : ''}
+
+  ${issues.length > 0 ? `
+  <div class="card">
+    <h2>Issues &amp; Recommendations</h2>
+    ${issues.map(finding => renderFinding(finding, screenshots)).join('')}
+  </div>` : ''}
+
+  ${result.timeline.length > 0 ? `
+  <div class="card">
+    <h2>Activity Timeline</h2>
+    ${timelineHtml}
+  </div>` : ''}
+
+  <div class="footer">Run ${escapeHtml(record.run_id)} · Generated ${new Date().toUTCString()}</div>
+</div>
+</body>
+</html>
+`;
+}
+
+// Prints report HTML to an A4 PDF with the local Chromium, whatever
+// BROWSER_ENV says: rendering a document needs no cloud session.
+export async function renderReportPdf(html: string): Promise<Buffer> {
+  const { Stagehand } = await import('@browserbasehq/stagehand');
+  const stagehand = new Stagehand(stagehandOptions('LOCAL'));
+  await stagehand.init();
+
+  try {
+    const page = stagehand.context.pages()[0];
+    await page.sendCDP('Page.setDocumentContent', { frameId: page.mainFrameId(), html });
+    // Screenshots are data URIs, but still decode asynchronously
+    await page.evaluate(() => Promise.all([...document.images].map(image => image.decode().catch(() => undefined))));
+
+    const { data } = await page.sendCDP<{ data: string }>('Page.printToPDF', {
+      printBackground: true,
+      preferCSSPageSize: true,
+    });
+    return Buffer.from(data, 'base64');
+  } finally {
+    await stagehand.close().catch(() => {
+      // Ignore close errors
+    });
+  }
+}
@@ -0,0 +1,128 @@
+import type { AnalysisResult, Finding } from '@/lib/agent';
+import { compareRuns } from '@/lib/compare';
+import { toCsv } from '@/lib/csv';
+import { ISSUE_CATEGORIES } from '@/lib/findings';
+import { SCHEMA_VERSION } from '@/lib/result-schema';
+
+// Exports of a run's findings for spreadsheets and CI pipelines
+
+interface FindingRow {
+  run_id: string;
+  store_url: string;
+  id: string;
+  category: Finding['category'];
+  title: string;
+  description: string;
+  evidence: string;
+  recommendation: string;
+  screenshot: string | null;
+}
+
+const FINDING_COLUMNS: (keyof FindingRow)[] = [
+  'run_id',
+  'store_url',
+  'id',
+  'category',
+  'title',
+  'description',
+  'evidence',
+  'recommendation',
+  'screenshot',
+];
+
+// One line per finding, most severe first, positives last
+export function findingsCsv(result: AnalysisResult): string {
+  const order: Finding['category'][] = [...ISSUE_CATEGORIES, 'positive'];
+  const rows = order.flatMap(category => result.findings
+    .filter(finding => finding.category === category)
+    .map(finding => ({
+      run_id: result.run_id,
+      store_url: result.store_url,
+      id: finding.id,
+      category: finding.category,
+      title: finding.title,
+      description: finding.description,
+      evidence: finding.evidence,
+      recommendation: finding.recommendation,
+      screenshot: finding.screenshot ?? null,
+    })));
+  return toCsv(FINDING_COLUMNS, rows);
+}
+
+type SarifLevel = 'error' | 'warning' | 'note';
+type BaselineState = 'new' | 'unchanged' | 'absent';
+
+const SARIF_LEVELS: Record<Exclude<Finding['category'], 'positive'>, SarifLevel> = {
+  critical: 'error',
+  warning: 'warning',
+  suggestion: 'note',
+};
+
+function sarifResult(result: AnalysisResult, finding: Finding, baselineState?: BaselineState) {
+  return {
+    ruleId: finding.id,
+    level: SARIF_LEVELS[finding.category as keyof typeof SARIF_LEVELS],
+    message: { text: `${finding.title}: ${finding.description}` },
+    locations: [{ physicalLocation: { artifactLocation: { uri: result.store_url } } }],
+    ...(baselineState && { baselineState }),
+    properties: {
+      category: finding.category,
+      evidence: finding.evidence,
+      recommendation: finding.recommendation,
+      ...(finding.screenshot && { screenshot: finding.screenshot }),
+    },
+  };
+}
+
+// The run's issues as a SARIF 2.1.0 log, which code scanning tools and CI
+// pipelines read. critical findings are errors, warnings warnings and
+// suggestions notes; positive findings are left out. With a baseline (an
+// earlier run of the same store), every result carries a baselineState:
+// new, unchanged, or absent for issues the baseline had and this run does not.
+export function resultSarif(result: AnalysisResult, baseline?: AnalysisResult) {
+  const isIssue = (finding: Finding) => finding.category !== 'positive';
+  const issues = result.findings.filter(isIssue);
+
+  const changes = baseline ? compareRuns(baseline, result).findings : null;
+  const results = changes
+    ? [
+      ...changes.added.filter(isIssue).map(finding => sarifResult(result, finding, 'new')),
+      ...changes.unchanged.filter(isIssue).map(finding => sarifResult(result, finding, 'unchanged')),
+      ...changes.resolved.filter(isIssue).map(finding => sarifResult(result, finding, 'absent')),
+    ]
+    : issues.map(finding => sarifResult(result, finding));
+
+  const rules = new Map<string, Finding>();
+  for (const finding of [...issues, ...(baseline?.findings.filter(isIssue) ?? [])]) {
+    if (!rules.has(finding.id)) rules.set(finding.id, finding);
+  }
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'shopai',
+          version: SCHEMA_VERSION,
+          rules: [...rules.values()].map(finding => ({
+            id: finding.id,
+            shortDescription: { text: finding.title },
+            help: { text: finding.recommendation },
+            defaultConfiguration: { level: SARIF_LEVELS[finding.category as keyof typeof SARIF_LEVELS] },
+          })),
+        },
+      },
+      automationDetails: { id: result.run_id },
+      ...(baseline && { baselineGuid: baseline.run_id }),
+      results,
+      properties: {
+        store_url: result.store_url,
+        status: result.status,
+        score: result.score,
+        metrics: result.metrics,
+        ...(baseline && { baseline_run_id: baseline.run_id }),
+      },
+    }],
+  };
+}
@@ -0,0 +1,137 @@
+import { z } from 'zod';
+import type { AnalysisResult } from '@/lib/agent';
+import { DEVICE_IDS } from '@/lib/devices';
+import { PERSONA_IDS } from '@/lib/personas';
+
+// Version of the AnalysisResult format, recorded on every result as
+// schema_version. Bump the minor version for added fields, the major version
+// for anything that can break a consumer (removed, renamed or retyped fields).
+export const SCHEMA_VERSION = '1.2.0';
+
+// Every version results have been stored under, oldest first. Later minor
+// versions only add optional fields, so a result of an earlier one is still
+// valid, and migrateResult brings it up to the current version.
+export const SCHEMA_VERSIONS = ['1.0.0', '1.1.0', SCHEMA_VERSION] as const;
+
+export type SchemaVersion = typeof SCHEMA_VERSIONS[number];
+
+// The published shape of a run result. Mirrors AnalysisResult, Finding and
+// TimelineEvent in agent.ts, PagePerformance in performance.ts and PageWait in
+// page-settle.ts; change both together.
+
+const findingSchema = z.object({
+  id: z.string().describe('Stable identifier of the kind of finding, the same across runs'),
+  category: z.enum(['critical', 'warning', 'suggestion', 'positive']),
+  title: z.string(),
+  description: z.string(),
+  evidence: z.string(),
+  recommendation: z.string(),
+  screenshot: z.string().optional().describe('Artifact URL of the screenshot showing what the finding is about'),
+});
+
+const timelineEventSchema = z.object({
+  timestamp: z.string().describe('ISO 8601'),
+  action: z.string(),
+  url: z.string(),
+  success: z.boolean(),
+  screenshot: z.string().optional().describe('Artifact URL of the page after the step'),
+});
+
+const pagePerformanceSchema = z.object({
+  page: z.enum(['homepage', 'product', 'cart', 'checkout']),
+  url: z.string(),
+  ttfb_ms: z.number().nullable().describe('Time to First Byte'),
+  lcp_ms: z.number().nullable().describe('Largest Contentful Paint'),
+  cls: z.number().describe('Cumulative Layout Shift'),
+  inp_ms: z.number().nullable().describe('Longest interaction the agent had with the page, approximating Interaction to Next Paint; null without interactions'),
+  tbt_ms: z.number().describe('Total Blocking Time'),
+  transfer_bytes: z.number().nullable().describe('Bytes over the network for the page and its subresources'),
+});
+
+const pageWaitSchema = z.object({
+  label: z.string().describe('What the shopper was waiting for, e.g. "Open product page"'),
+  url: z.string(),
+  waited_ms: z.number(),
+  settled_by: z.enum(['quiet', 'navigation', 'cart', 'timeout']),
+});
+
+const runMetricsSchema = z.object({
+  add_to_cart_success: z.boolean(),
+  time_to_add_to_cart_seconds: z.number().nullable().describe('Seconds the store took to update the cart after each add-to-cart click, added up'),
+  checkout_reached: z.boolean(),
+  checkout_form_filled: z.boolean(),
+  drop_off_step: z.string().nullable().describe('Funnel step the run stopped at; null when it got through'),
+});
+
+const scoreItemSchema = z.object({
+  label: z.string(),
+  points: z.number(),
+  finding_id: z.string().optional(),
+});
+
+const scoreBreakdownSchema = z.object({
+  total: z.number(),
+  funnel: z.array(scoreItemSchema),
+  ux_base: z.number(),
+  deductions: z.array(scoreItemSchema),
+  ux: z.number(),
+});
+
+export const analysisResultSchema = z.object({
+  schema_version: z.enum(SCHEMA_VERSIONS).describe('Version of this format the result was written in'),
+  run_id: z.string(),
+  store_url: z.string(),
+  status: z.enum(['completed', 'failed', 'cancelled']),
+  score: z.number().min(0).max(100),
+  score_breakdown: scoreBreakdownSchema.optional().describe('Only completed runs are scored'),
+  metrics: runMetricsSchema,
+  persona: z.enum(PERSONA_IDS).optional(),
+  device: z.enum(DEVICE_IDS).optional(),
+  performance: z.object({ pages: z.array(pagePerformanceSchema) }).optional().describe('Page performance of each funnel page the run reached'),
+  findings: z.array(findingSchema),
+  timeline: z.array(timelineEventSchema),
+  page_waits: z.array(pageWaitSchema).optional().describe('How long the store took to settle after each action, in order'),
+  session_url: z.string().nullable(),
+  error: z.string().optional(),
+});
+
+// The schema as JSON Schema (draft 2020-12). Objects allow unknown
+// properties, so consumers keep validating results of later minor versions.
+export function analysisResultJsonSchema(): Record<string, unknown> {
+  const definitions = z.registry<{ id: string; description?: string }>();
+  definitions.add(findingSchema, { id: 'Finding', description: 'Something the run noticed about the store' });
+  definitions.add(timelineEventSchema, { id: 'TimelineEvent', description: 'One step the agent took' });
+  definitions.add(runMetricsSchema, { id: 'RunMetrics' });
+  definitions.add(pageWaitSchema, { id: 'PageWait' });
+  definitions.add(pagePerformanceSchema, { id: 'PagePerformance', description: 'Core Web Vitals and page weight of one funnel page' });
+  definitions.add(scoreBreakdownSchema, { id: 'ScoreBreakdown' });
+
+  const schema = z.toJSONSchema(analysisResultSchema, {
+    target: 'draft-2020-12',
+    io: 'input',
+    metadata: definitions,
+    // The registry id becomes the $defs key; keep it out of the definitions themselves
+    override: ({ jsonSchema }) => {
+      delete jsonSchema.id;
+    },
+  });
+
+  return {
+    ...schema,
+    $id: `urn:shopai:analysis-result:${SCHEMA_VERSION}`,
+    title: 'AnalysisResult',
+    description: 'Result of a checkout analysis run',
+  };
+}
+
+// Reads a stored result as the current version. Results written before
+// schema_version existed are 1.0.0 results without it; none of the minor
+// versions since changed an existing field, so only the version is updated.
+// A version this code does not know is left as it is.
+export function migrateResult(result: AnalysisResult): AnalysisResult {
+  const version = (result as { schema_version?: string }).schema_version ?? '1.0.0';
+  if (!(SCHEMA_VERSIONS as readonly string[]).includes(version)) {
+    return result;
+  }
+  return { ...result, schema_version: SCHEMA_VERSION };
+}
@@ -0,0 +1,82 @@
+import { abortedResult, RunCancelledError, RunTimeoutError } from '@/lib/agent';
+import { finishRun, getRunQueue } from '@/lib/run-queue';
+import { getRunRepository, isFinished } from '@/lib/run-repository';
+
+const DEFAULT_RUN_TIMEOUT_MS = 10 * 60 * 1000;
+
+export function getRunTimeoutMs(): number {
+  const configured = Number(process.env.RUN_TIMEOUT_MS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_RUN_TIMEOUT_MS;
+}
+
+interface ActiveRun {
+  controller: AbortController;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Tracks the AbortController of every run executing in this process, so a
+// cancel request or the global timeout can stop it.
+export class RunController {
+  private active = new Map<string, ActiveRun>();
+
+  start(runId: string, timeoutMs = getRunTimeoutMs()): AbortSignal {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(new RunTimeoutError(timeoutMs)), timeoutMs);
+    this.active.set(runId, { controller, timer });
+    return controller.signal;
+  }
+
+  // Returns false when the run is not executing in this process
+  cancel(runId: string): boolean {
+    const run = this.active.get(runId);
+    if (!run) {
+      return false;
+    }
+    run.controller.abort(new RunCancelledError());
+    return true;
+  }
+
+  finish(runId: string): void {
+    const run = this.active.get(runId);
+    if (run) {
+      clearTimeout(run.timer);
+      this.active.delete(runId);
+    }
+  }
+}
+
+export type CancelOutcome = 'not_found' | 'not_running' | 'cancelling' | 'cancelled';
+
+// Cancels a queued or running run. A run executing in this process is aborted
+// and records its own 'cancelled' result; a queued run is taken out of the
+// queue and, like a run no process is executing any more (e.g. after a
+// restart), marked cancelled directly.
+export async function cancelRun(runId: string): Promise<CancelOutcome> {
+  const runs = getRunRepository();
+  const record = await runs.get(runId);
+
+  if (!record) {
+    return 'not_found';
+  }
+  if (isFinished(record.status)) {
+    return 'not_running';
+  }
+  if (record.status === 'running' && getRunController().cancel(runId)) {
+    return 'cancelling';
+  }
+
+  getRunQueue().remove(runId);
+
+  await finishRun(runId, abortedResult(record.store_url, runId, new RunCancelledError(), null, [], null));
+  return 'cancelled';
+}
+
+// Keep a single instance across Next.js hot reloads
+const globalForControl = globalThis as unknown as { runController?: RunController };
+
+export function getRunController(): RunController {
+  if (!globalForControl.runController) {
+    globalForControl.runController = new RunController();
+  }
+  return globalForControl.runController;
+}
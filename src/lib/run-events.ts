@@ -0,0 +1,80 @@
+import type { ProgressEvent } from '@/lib/agent';
+import type { RunStatus } from '@/lib/run-repository';
+
+export type RunStreamEvent =
+  | ProgressEvent
+  // The run is waiting for a free slot; position 1 runs next
+  | { type: 'queued'; position: number }
+  // An attempt failed with a transient error; the run is tried again at next_attempt_at
+  | { type: 'retry'; attempt: number; error: string; next_attempt_at: string }
+  | { type: 'done'; status: RunStatus };
+
+type Listener = (event: RunStreamEvent) => void;
+
+interface Channel {
+  history: RunStreamEvent[];
+  listeners: Set<Listener>;
+}
+
+// How long a finished run's events stay available for late subscribers
+const RETENTION_MS = 60_000;
+
+// In-process pub/sub for live run progress. Every event is buffered so a
+// client that connects mid-run gets the steps it missed replayed first.
+export class RunEventBus {
+  private channels = new Map<string, Channel>();
+
+  publish(runId: string, event: RunStreamEvent): void {
+    let channel = this.channels.get(runId);
+    if (!channel) {
+      channel = { history: [], listeners: new Set() };
+      this.channels.set(runId, channel);
+    }
+
+    // A retry starts the funnel over: late subscribers get the current
+    // attempt only, not the events of earlier ones mixed in
+    if (event.type === 'retry') {
+      channel.history = [];
+    }
+    channel.history.push(event);
+    for (const listener of channel.listeners) {
+      listener(event);
+    }
+
+    if (event.type === 'done') {
+      setTimeout(() => this.channels.delete(runId), RETENTION_MS).unref?.();
+    }
+  }
+
+  // Returns false when this process has no events for the run, e.g. after a
+  // restart or when the run was started on another instance.
+  has(runId: string): boolean {
+    return this.channels.has(runId);
+  }
+
+  subscribe(runId: string, listener: Listener): () => void {
+    const channel = this.channels.get(runId);
+    if (!channel) {
+      return () => {};
+    }
+
+    for (const event of channel.history) {
+      listener(event);
+    }
+    channel.listeners.add(listener);
+
+    return () => {
+      channel.listeners.delete(listener);
+    };
+  }
+}
+
+// Keep a single instance across Next.js hot reloads
+const globalForEvents = globalThis as unknown as { runEvents?: RunEventBus };
+
+export function getRunEventBus(): RunEventBus {
+  if (!globalForEvents.runEvents) {
+    globalForEvents.runEvents = new RunEventBus();
+  }
+  return globalForEvents.runEvents;
+}
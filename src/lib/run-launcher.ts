@@ -0,0 +1,80 @@
+import { randomUUID } from 'crypto';
+import type { RunOptions } from '@/lib/agent';
+import { BROWSER_ENVS, BrowserEnv, isBrowserEnv } from '@/lib/browser';
+import { DEFAULT_DEVICE, DeviceId, DEVICE_IDS, isDeviceId } from '@/lib/devices';
+import { isPersonaId, PersonaId, PERSONA_IDS } from '@/lib/personas';
+import { getRunQueue } from '@/lib/run-queue';
+import { getRunRepository, RunDetails } from '@/lib/run-repository';
+import { DEFAULT_STEPS } from '@/lib/steps';
+
+// Per-run choices a request can make
+export type RunSettings = Pick<RunOptions, 'skipSteps' | 'browser' | 'persona' | 'device'>;
+
+export type LaunchOptions = RunSettings & Pick<RunDetails, 'pair_id' | 'batch_id' | 'schedule_id' | 'callback_url'>;
+
+// Checks the run settings a request body may carry (browser, persona, device,
+// skip_steps). Returns the error for the first invalid one, or null.
+export function runSettingsError(body: Record<string, unknown>): string | null {
+  const { browser, persona, device, skip_steps } = body;
+
+  if (browser !== undefined && !isBrowserEnv(browser)) {
+    return `Invalid browser, expected one of: ${BROWSER_ENVS.join(', ')}`;
+  }
+
+  if (persona !== undefined && !isPersonaId(persona)) {
+    return `Invalid persona, expected one of: ${PERSONA_IDS.join(', ')}`;
+  }
+
+  if (device !== undefined && !isDeviceId(device)) {
+    return `Invalid device, expected one of: ${DEVICE_IDS.join(', ')}`;
+  }
+
+  if (skip_steps !== undefined) {
+    const known = DEFAULT_STEPS.map(step => step.name);
+    const unknown = Array.isArray(skip_steps)
+      ? skip_steps.filter((name: unknown) => !known.includes(name as string))
+      : [skip_steps];
+    if (unknown.length > 0) {
+      return `Unknown step(s) in skip_steps: ${unknown.join(', ')}. Known steps: ${known.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+// The run settings of a body that passed runSettingsError
+export function runSettings(body: Record<string, unknown>): RunSettings {
+  return {
+    browser: body.browser as BrowserEnv | undefined,
+    persona: body.persona as PersonaId | undefined,
+    device: body.device as DeviceId | undefined,
+    skipSteps: body.skip_steps as string[] | undefined,
+  };
+}
+
+export interface LaunchedRun {
+  runId: string;
+  // Settles once the run's result has been stored; never rejects
+  finished: Promise<void>;
+}
+
+// Creates the run record and puts the run in the run queue. Resolves as soon
+// as the run is recorded; progress and the result reach the run's event
+// stream and record.
+export async function launchRun(storeUrl: string, options: LaunchOptions = {}): Promise<LaunchedRun> {
+  const { pair_id, batch_id, schedule_id, callback_url, ...runOptions } = options;
+  const runId = randomUUID();
+
+  await getRunRepository().create(runId, storeUrl, {
+    device: runOptions.device ?? DEFAULT_DEVICE,
+    pair_id,
+    batch_id,
+    schedule_id,
+    callback_url,
+    settings: runOptions,
+  });
+
+  console.log(`Queueing analysis for: ${storeUrl}, run_id: ${runId}`);
+
+  return { runId, finished: getRunQueue().enqueue(runId, storeUrl, runOptions) };
+}
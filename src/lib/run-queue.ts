@@ -0,0 +1,306 @@
+import { AnalysisResult, runAnalysis } from '@/lib/agent';
+import { SCHEMA_VERSION } from '@/lib/result-schema';
+import { getRunController } from '@/lib/run-control';
+import { getRunEventBus } from '@/lib/run-events';
+import type { RunSettings } from '@/lib/run-launcher';
+import { getRunRepository, runAttempts, RunFinishedError, RunRecord } from '@/lib/run-repository';
+import { deliverRunResult } from '@/lib/webhooks';
+
+const DEFAULT_RUN_CONCURRENCY = 3;
+const DEFAULT_RUN_MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 10_000;
+const RETRY_MAX_DELAY_MS = 2 * 60 * 1000;
+
+// Most browser sessions open at once across all runs
+export function getRunConcurrency(): number {
+  const configured = Number(process.env.RUN_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_RUN_CONCURRENCY;
+}
+
+// Tries per run, the first one included
+export function getRunMaxAttempts(): number {
+  const configured = Number(process.env.RUN_MAX_ATTEMPTS);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_RUN_MAX_ATTEMPTS;
+}
+
+// 10s before the second attempt, doubling after that, capped at 2 minutes
+export function retryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+// Failures worth another attempt: the store or the browser provider being
+// briefly unreachable, as opposed to the store's funnel being broken
+const TRANSIENT_ERRORS = [
+  /timeout/i,
+  /timed out/i,
+  /net::ERR_/,
+  /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN/,
+  /socket hang up/i,
+  /Target (page, context or browser )?(has been )?closed/i,
+  /\b(429|502|503|504)\b/,
+];
+
+export function isTransientFailure(result: AnalysisResult): boolean {
+  const error = result.error;
+  return result.status === 'failed' && !!error && TRANSIENT_ERRORS.some(pattern => pattern.test(error));
+}
+
+interface RunJob {
+  runId: string;
+  storeUrl: string;
+  options: RunSettings;
+  attempt: number;
+  // Settles the promise enqueue() returned
+  done: () => void;
+}
+
+// Schedules runs in this process: at most `concurrency` execute at once, the
+// rest wait in line (status queued). A run that fails with a transient error
+// is queued again after a backoff, up to `maxAttempts` tries.
+export class RunQueue {
+  private waiting: RunJob[] = [];
+  private executing = new Set<string>();
+  // Jobs sitting out a retry backoff
+  private delayed = new Map<string, { job: RunJob; timer: ReturnType<typeof setTimeout>; nextAttemptAt: string }>();
+
+  constructor(
+    private readonly concurrency = getRunConcurrency(),
+    private readonly maxAttempts = getRunMaxAttempts(),
+  ) {}
+
+  // Resolves once the run's final result has been stored; never rejects.
+  // attempt is the try the run is at, for runs queued again after a restart.
+  enqueue(runId: string, storeUrl: string, options: RunSettings, attempt = 1): Promise<void> {
+    return new Promise((resolve) => {
+      this.waiting.push({ runId, storeUrl, options, attempt, done: resolve });
+      getRunEventBus().publish(runId, { type: 'queued', position: this.waiting.length });
+      this.pump();
+    });
+  }
+
+  // 1-based place in line, or null when the run is not waiting for a slot
+  // (executing, sitting out a retry backoff, or not known to this process)
+  position(runId: string): number | null {
+    const index = this.waiting.findIndex(job => job.runId === runId);
+    return index === -1 ? null : index + 1;
+  }
+
+  // When the next attempt of a run in retry backoff starts
+  nextAttemptAt(runId: string): string | null {
+    return this.delayed.get(runId)?.nextAttemptAt ?? null;
+  }
+
+  // Takes a run that is not executing out of the queue. Returns false when
+  // it is executing or not queued in this process.
+  remove(runId: string): boolean {
+    const index = this.waiting.findIndex(job => job.runId === runId);
+    if (index !== -1) {
+      const [job] = this.waiting.splice(index, 1);
+      job.done();
+      return true;
+    }
+
+    const delayed = this.delayed.get(runId);
+    if (delayed) {
+      clearTimeout(delayed.timer);
+      this.delayed.delete(runId);
+      delayed.job.done();
+      return true;
+    }
+
+    return false;
+  }
+
+  private pump(): void {
+    while (this.executing.size < this.concurrency) {
+      const job = this.waiting.shift();
+      if (!job) return;
+      this.executing.add(job.runId);
+      this.execute(job).finally(() => {
+        this.executing.delete(job.runId);
+        this.pump();
+      });
+      this.announcePositions();
+    }
+  }
+
+  // Everyone still waiting moved up one place
+  private announcePositions(): void {
+    const events = getRunEventBus();
+    this.waiting.forEach((job, index) => events.publish(job.runId, { type: 'queued', position: index + 1 }));
+  }
+
+  private async execute(job: RunJob): Promise<void> {
+    const { runId, storeUrl, options } = job;
+    const runs = getRunRepository();
+    const events = getRunEventBus();
+    const control = getRunController();
+
+    try {
+      // Cancelled while it was being picked off the queue. The transition
+      // checks again under the run's lock, so a cancel that lands in between
+      // is not overwritten.
+      try {
+        await runs.transition(runId, 'running');
+      } catch (error) {
+        if (!(error instanceof RunFinishedError)) throw error;
+        job.done();
+        return;
+      }
+      console.log(`Starting attempt ${job.attempt} for run_id: ${runId}`);
+
+      const signal = control.start(runId);
+      let result: AnalysisResult;
+      try {
+        result = await runAnalysis(storeUrl, runId, {
+          ...options,
+          attempt: job.attempt,
+          signal,
+          onProgress: (event) => events.publish(runId, event),
+        });
+      } catch (error) {
+        console.error(`Analysis failed for run_id: ${runId}`, error);
+        result = crashedResult(runId, storeUrl, options, error);
+      } finally {
+        control.finish(runId);
+      }
+
+      // A cancelled or timed-out run is never retried
+      if (!signal.aborted && job.attempt < this.maxAttempts && isTransientFailure(result)) {
+        await runs.transition(runId, 'queued');
+        this.retry(job, result.error ?? 'Unknown error');
+        return;
+      }
+
+      await finishRun(runId, result);
+      console.log(`Analysis completed for run_id: ${runId}`);
+      job.done();
+    } catch (error) {
+      console.error(`Failed to persist result for run_id: ${runId}`, error);
+      job.done();
+    }
+  }
+
+  private retry(job: RunJob, error: string): void {
+    const delay = retryDelayMs(job.attempt);
+    const nextAttemptAt = new Date(Date.now() + delay).toISOString();
+    console.log(`Run ${job.runId} failed with a transient error, retrying at ${nextAttemptAt}: ${error}`);
+    getRunEventBus().publish(job.runId, { type: 'retry', attempt: job.attempt, error, next_attempt_at: nextAttemptAt });
+
+    const next = { ...job, attempt: job.attempt + 1 };
+    const timer = setTimeout(() => {
+      this.delayed.delete(job.runId);
+      // Retries go to the front: they have already waited their turn
+      this.waiting.unshift(next);
+      this.pump();
+    }, delay);
+    this.delayed.set(job.runId, { job: next, timer, nextAttemptAt });
+  }
+}
+
+// Stores a run's final result, tells progress listeners and delivers the
+// result to the run's callback_url. Every way a run can end goes through here.
+export async function finishRun(runId: string, result: AnalysisResult): Promise<RunRecord> {
+  const finished = await getRunRepository().transition(runId, result.status, result);
+  getRunEventBus().publish(runId, { type: 'done', status: result.status });
+
+  deliverRunResult(finished).catch((error) => {
+    console.error(`Failed to deliver the result of run_id: ${runId}`, error);
+  });
+  return finished;
+}
+
+// Picks up the runs a previous server process left behind. The queue only
+// lives in memory, so queued runs are queued again, oldest first. Runs that
+// were executing lost their browser session with the process and are failed.
+export async function recoverRuns(queue = getRunQueue()): Promise<void> {
+  const runs = getRunRepository();
+
+  const { runs: orphaned } = await runs.list({ status: 'running' });
+  for (const record of orphaned) {
+    await finishRun(record.run_id, interruptedResult(record))
+      .catch(error => console.error(`Could not fail orphaned run_id: ${record.run_id}`, error));
+  }
+
+  const { runs: queued } = await runs.list({ status: 'queued' });
+  for (const record of queued.reverse()) {
+    const settings = record.settings ?? { device: record.device };
+    queue.enqueue(record.run_id, record.store_url, settings, runAttempts(record) + 1);
+  }
+
+  if (orphaned.length > 0 || queued.length > 0) {
+    console.log(`Recovered runs: ${queued.length} queued again, ${orphaned.length} orphaned marked failed`);
+  }
+}
+
+// Result for a run whose analysis threw instead of returning a failed result
+function crashedResult(runId: string, storeUrl: string, options: RunSettings, error: unknown): AnalysisResult {
+  const message = error instanceof Error ? error.message : 'Unknown error occurred';
+  return {
+    schema_version: SCHEMA_VERSION,
+    run_id: runId,
+    store_url: storeUrl,
+    status: 'failed',
+    score: 0,
+    metrics: {
+      add_to_cart_success: false,
+      time_to_add_to_cart_seconds: null,
+      checkout_reached: false,
+      checkout_form_filled: false,
+      drop_off_step: 'initialization',
+    },
+    device: options.device,
+    findings: [{
+      id: 'error',
+      category: 'critical',
+      title: 'Analysis Error',
+      description: message,
+      evidence: String(error),
+      recommendation: 'Try again or contact support',
+    }],
+    timeline: [],
+    session_url: null,
+    error: message,
+  };
+}
+
+// Result for a run that was executing when the server process went away
+function interruptedResult(record: RunRecord): AnalysisResult {
+  const message = 'The server restarted while the run was executing';
+  return {
+    schema_version: SCHEMA_VERSION,
+    run_id: record.run_id,
+    store_url: record.store_url,
+    status: 'failed',
+    score: 0,
+    metrics: {
+      add_to_cart_success: false,
+      time_to_add_to_cart_seconds: null,
+      checkout_reached: false,
+      checkout_form_filled: false,
+      drop_off_step: null,
+    },
+    device: record.device,
+    findings: [{
+      id: 'run-interrupted',
+      category: 'critical',
+      title: 'Interrupted by Server Restart',
+      description: 'The analysis was still running when the server restarted, and its browser session was lost',
+      evidence: message,
+      recommendation: 'Start the analysis again',
+    }],
+    timeline: [],
+    session_url: null,
+    error: message,
+  };
+}
+
+// Keep a single instance across Next.js hot reloads
+const globalForQueue = globalThis as unknown as { runQueue?: RunQueue };
+
+export function getRunQueue(): RunQueue {
+  if (!globalForQueue.runQueue) {
+    globalForQueue.runQueue = new RunQueue();
+  }
+  return globalForQueue.runQueue;
+}
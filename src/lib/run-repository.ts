@@ -0,0 +1,327 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AnalysisResult } from '@/lib/agent';
+import type { DeviceId } from '@/lib/devices';
+import { migrateResult } from '@/lib/result-schema';
+import type { RunSettings } from '@/lib/run-launcher';
+import type { WebhookAttempt } from '@/lib/webhooks';
+
+// queued: waiting for a free slot in the run queue, or for a retry
+export type RunStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export const RUN_STATUSES: RunStatus[] = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+// Completed, failed and cancelled runs have a result and never change again
+export function isFinished(status: RunStatus): boolean {
+  return status !== 'queued' && status !== 'running';
+}
+
+export interface StatusTransition {
+  status: RunStatus;
+  at: string;
+}
+
+export interface RunRecord {
+  run_id: string;
+  store_url: string;
+  status: RunStatus;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  transitions: StatusTransition[];
+  device?: DeviceId;
+  // Set when the run is one of a desktop/mobile pair started together
+  pair_id?: string;
+  // Set when the run was started as part of a batch
+  batch_id?: string;
+  // Set when a schedule started the run
+  schedule_id?: string;
+  // Where the result is POSTed when the run finishes
+  callback_url?: string;
+  // What the run was started with, so it can be queued again after a restart
+  settings?: RunSettings;
+  // Every try at POSTing the result to callback_url, oldest first
+  webhook_attempts?: WebhookAttempt[];
+  result?: AnalysisResult;
+}
+
+// What is known about a run when it is created, kept on its record
+export interface RunDetails {
+  device?: DeviceId;
+  pair_id?: string;
+  batch_id?: string;
+  schedule_id?: string;
+  callback_url?: string;
+  settings?: RunSettings;
+}
+
+export interface RunQuery {
+  store_url?: string;
+  status?: RunStatus;
+  pair_id?: string;
+  batch_id?: string;
+  schedule_id?: string;
+  // Inclusive bounds on created_at, as ISO timestamps
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface RunList {
+  runs: RunRecord[];
+  total: number;
+}
+
+// Storage backend for runs. Routes only talk to this interface, so the
+// backing store can be swapped without touching them.
+export interface RunRepository {
+  create(runId: string, storeUrl: string, details?: RunDetails): Promise<RunRecord>;
+  get(runId: string): Promise<RunRecord | null>;
+  list(query: RunQuery): Promise<RunList>;
+  transition(runId: string, status: RunStatus, result?: AnalysisResult): Promise<RunRecord>;
+  recordWebhookAttempt(runId: string, attempt: WebhookAttempt): Promise<void>;
+}
+
+// Every attempt at a run starts with a transition to running
+export function runAttempts(record: RunRecord): number {
+  return record.transitions.filter(transition => transition.status === 'running').length;
+}
+
+// Treat "https://Shop.com/" and "https://shop.com" as the same store
+export function normalizeStoreUrl(storeUrl: string): string {
+  try {
+    const url = new URL(storeUrl);
+    return `${url.protocol}//${url.host.toLowerCase()}${url.pathname.replace(/\/+$/, '')}${url.search}`;
+  } catch {
+    return storeUrl.trim().replace(/\/+$/, '');
+  }
+}
+
+function queryRuns(records: RunRecord[], query: RunQuery): RunList {
+  const storeUrl = query.store_url ? normalizeStoreUrl(query.store_url) : null;
+  const from = query.from ? Date.parse(query.from) : null;
+  const to = query.to ? Date.parse(query.to) : null;
+
+  const matching = records
+    .filter((record) => {
+      if (storeUrl && normalizeStoreUrl(record.store_url) !== storeUrl) return false;
+      if (query.status && record.status !== query.status) return false;
+      if (query.pair_id && record.pair_id !== query.pair_id) return false;
+      if (query.batch_id && record.batch_id !== query.batch_id) return false;
+      if (query.schedule_id && record.schedule_id !== query.schedule_id) return false;
+      const createdAt = Date.parse(record.created_at);
+      if (from !== null && createdAt < from) return false;
+      if (to !== null && createdAt > to) return false;
+      return true;
+    })
+    // Newest first
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  const offset = query.offset ?? 0;
+  const limit = query.limit ?? matching.length;
+
+  return {
+    runs: matching.slice(offset, offset + limit),
+    total: matching.length,
+  };
+}
+
+// Thrown by transition() for a run that has already finished, e.g. one
+// cancelled between being picked off the queue and starting
+export class RunFinishedError extends Error {
+  constructor(runId: string, status: RunStatus) {
+    super(`Run ${runId} is already ${status}`);
+    this.name = 'RunFinishedError';
+  }
+}
+
+function applyTransition(record: RunRecord, status: RunStatus, result?: AnalysisResult): RunRecord {
+  if (isFinished(record.status)) {
+    throw new RunFinishedError(record.run_id, record.status);
+  }
+  const now = new Date().toISOString();
+  const finished = isFinished(status);
+
+  return {
+    ...record,
+    status,
+    updated_at: now,
+    completed_at: finished ? now : record.completed_at,
+    transitions: [...record.transitions, { status, at: now }],
+    result: result ?? record.result,
+  };
+}
+
+function newRecord(runId: string, storeUrl: string, details: RunDetails = {}): RunRecord {
+  const now = new Date().toISOString();
+  return {
+    run_id: runId,
+    store_url: storeUrl,
+    status: 'queued',
+    created_at: now,
+    updated_at: now,
+    completed_at: null,
+    transitions: [{ status: 'queued', at: now }],
+    ...details,
+  };
+}
+
+// Run IDs are UUIDs; reject anything that could escape the storage directory
+function isValidRunId(runId: string): boolean {
+  return /^[a-zA-Z0-9-]+$/.test(runId);
+}
+
+export class MemoryRunRepository implements RunRepository {
+  private records = new Map<string, RunRecord>();
+
+  async create(runId: string, storeUrl: string, details?: RunDetails): Promise<RunRecord> {
+    const record = newRecord(runId, storeUrl, details);
+    this.records.set(runId, record);
+    return record;
+  }
+
+  async get(runId: string): Promise<RunRecord | null> {
+    return this.records.get(runId) ?? null;
+  }
+
+  async list(query: RunQuery): Promise<RunList> {
+    return queryRuns([...this.records.values()], query);
+  }
+
+  async transition(runId: string, status: RunStatus, result?: AnalysisResult): Promise<RunRecord> {
+    const record = this.records.get(runId);
+    if (!record) {
+      throw new Error(`Run not found: ${runId}`);
+    }
+    const updated = applyTransition(record, status, result);
+    this.records.set(runId, updated);
+    return updated;
+  }
+
+  async recordWebhookAttempt(runId: string, attempt: WebhookAttempt): Promise<void> {
+    const record = this.records.get(runId);
+    if (!record) {
+      throw new Error(`Run not found: ${runId}`);
+    }
+    this.records.set(runId, { ...record, webhook_attempts: [...record.webhook_attempts ?? [], attempt] });
+  }
+}
+
+// Stores each run as <dir>/<run_id>.json. Writes go through a temp file and
+// a rename so a crash mid-write never leaves a truncated record behind.
+export class FileRunRepository implements RunRepository {
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly dir: string) {}
+
+  async create(runId: string, storeUrl: string, details?: RunDetails): Promise<RunRecord> {
+    const record = newRecord(runId, storeUrl, details);
+    await this.withLock(runId, () => this.write(record));
+    return record;
+  }
+
+  async get(runId: string): Promise<RunRecord | null> {
+    return this.read(runId);
+  }
+
+  async list(query: RunQuery): Promise<RunList> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { runs: [], total: 0 };
+      }
+      throw error;
+    }
+
+    const records = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => this.read(file.slice(0, -'.json'.length)))
+    );
+
+    return queryRuns(records.filter((record): record is RunRecord => record !== null), query);
+  }
+
+  async transition(runId: string, status: RunStatus, result?: AnalysisResult): Promise<RunRecord> {
+    return this.withLock(runId, async () => {
+      const record = await this.read(runId);
+      if (!record) {
+        throw new Error(`Run not found: ${runId}`);
+      }
+      const updated = applyTransition(record, status, result);
+      await this.write(updated);
+      return updated;
+    });
+  }
+
+  async recordWebhookAttempt(runId: string, attempt: WebhookAttempt): Promise<void> {
+    await this.withLock(runId, async () => {
+      const record = await this.read(runId);
+      if (!record) {
+        throw new Error(`Run not found: ${runId}`);
+      }
+      await this.write({ ...record, webhook_attempts: [...record.webhook_attempts ?? [], attempt] });
+    });
+  }
+
+  private filePath(runId: string): string {
+    if (!isValidRunId(runId)) {
+      throw new Error(`Invalid run ID: ${runId}`);
+    }
+    return path.join(this.dir, `${runId}.json`);
+  }
+
+  private async read(runId: string): Promise<RunRecord | null> {
+    if (!isValidRunId(runId)) {
+      return null;
+    }
+    try {
+      const raw = await fs.readFile(this.filePath(runId), 'utf8');
+      const record = JSON.parse(raw) as RunRecord;
+      // Records outlive the result format; read older results as the current one
+      return record.result ? { ...record, result: migrateResult(record.result) } : record;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async write(record: RunRecord): Promise<void> {
+    const target = this.filePath(record.run_id);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(tmp, JSON.stringify(record, null, 2), 'utf8');
+    await fs.rename(tmp, target);
+  }
+
+  // Serialize read-modify-write cycles per run within this process
+  private async withLock<T>(runId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(runId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(fn);
+    this.locks.set(runId, next);
+    try {
+      return await next;
+    } finally {
+      if (this.locks.get(runId) === next) {
+        this.locks.delete(runId);
+      }
+    }
+  }
+}
+
+// Keep a single instance across Next.js hot reloads
+const globalForRuns = globalThis as unknown as { runRepository?: RunRepository };
+
+export function getRunRepository(): RunRepository {
+  if (!globalForRuns.runRepository) {
+    globalForRuns.runRepository = process.env.RUN_STORE === 'memory'
+      ? new MemoryRunRepository()
+      : new FileRunRepository(process.env.RUN_STORE_DIR || path.join(process.cwd(), '.data', 'runs'));
+  }
+  return globalForRuns.runRepository;
+}
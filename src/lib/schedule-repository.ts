@@ -0,0 +1,206 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { MetricChange } from '@/lib/compare';
+import type { RunSettings } from '@/lib/run-launcher';
+
+export interface ScheduleAlert {
+  at: string;
+  run_id: string;
+  // The earlier completed run the score and metrics were compared against
+  baseline_run_id: string;
+  score_delta: number;
+  // Funnel milestones the baseline reached and this run did not
+  lost_metrics: MetricChange[];
+  // Whether the webhook accepted the alert
+  delivered: boolean;
+}
+
+export interface ScheduleRecord {
+  schedule_id: string;
+  store_url: string;
+  // Five-field cron expression, in the server's local time
+  cron: string;
+  // Settings every run of the schedule is started with
+  options: RunSettings;
+  // Outgoing webhook for alerts; null falls back to ALERT_WEBHOOK_URL
+  webhook_url: string | null;
+  // Alert when the score falls by at least this many points
+  score_drop_threshold: number;
+  created_at: string;
+  next_run_at: string;
+  last_run_id: string | null;
+  last_run_at: string | null;
+  last_alert: ScheduleAlert | null;
+}
+
+export type ScheduleUpdate = Partial<Pick<ScheduleRecord, 'next_run_at' | 'last_run_id' | 'last_run_at' | 'last_alert'>>;
+
+export interface ScheduleRepository {
+  create(record: ScheduleRecord): Promise<void>;
+  get(scheduleId: string): Promise<ScheduleRecord | null>;
+  // Oldest first
+  list(): Promise<ScheduleRecord[]>;
+  update(scheduleId: string, update: ScheduleUpdate): Promise<ScheduleRecord>;
+  // Returns false when there was no such schedule
+  delete(scheduleId: string): Promise<boolean>;
+}
+
+// Schedule IDs are UUIDs; reject anything that could escape the storage directory
+function isValidScheduleId(scheduleId: string): boolean {
+  return /^[a-zA-Z0-9-]+$/.test(scheduleId);
+}
+
+function oldestFirst(records: ScheduleRecord[]): ScheduleRecord[] {
+  return records.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export class MemoryScheduleRepository implements ScheduleRepository {
+  private records = new Map<string, ScheduleRecord>();
+
+  async create(record: ScheduleRecord): Promise<void> {
+    this.records.set(record.schedule_id, record);
+  }
+
+  async get(scheduleId: string): Promise<ScheduleRecord | null> {
+    return this.records.get(scheduleId) ?? null;
+  }
+
+  async list(): Promise<ScheduleRecord[]> {
+    return oldestFirst([...this.records.values()]);
+  }
+
+  async update(scheduleId: string, update: ScheduleUpdate): Promise<ScheduleRecord> {
+    const record = this.records.get(scheduleId);
+    if (!record) {
+      throw new Error(`Schedule not found: ${scheduleId}`);
+    }
+    const updated = { ...record, ...update };
+    this.records.set(scheduleId, updated);
+    return updated;
+  }
+
+  async delete(scheduleId: string): Promise<boolean> {
+    return this.records.delete(scheduleId);
+  }
+}
+
+// Stores each schedule as <dir>/<schedule_id>.json, written through a temp
+// file and a rename like run records.
+export class FileScheduleRepository implements ScheduleRepository {
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly dir: string) {}
+
+  async create(record: ScheduleRecord): Promise<void> {
+    await this.withLock(record.schedule_id, () => this.write(record));
+  }
+
+  async get(scheduleId: string): Promise<ScheduleRecord | null> {
+    return this.read(scheduleId);
+  }
+
+  async list(): Promise<ScheduleRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.dir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records = await Promise.all(
+      files
+        .filter((file) => file.endsWith('.json'))
+        .map((file) => this.read(file.slice(0, -'.json'.length)))
+    );
+    return oldestFirst(records.filter((record): record is ScheduleRecord => record !== null));
+  }
+
+  async update(scheduleId: string, update: ScheduleUpdate): Promise<ScheduleRecord> {
+    return this.withLock(scheduleId, async () => {
+      const record = await this.read(scheduleId);
+      if (!record) {
+        throw new Error(`Schedule not found: ${scheduleId}`);
+      }
+      const updated = { ...record, ...update };
+      await this.write(updated);
+      return updated;
+    });
+  }
+
+  async delete(scheduleId: string): Promise<boolean> {
+    if (!isValidScheduleId(scheduleId)) {
+      return false;
+    }
+    return this.withLock(scheduleId, async () => {
+      try {
+        await fs.unlink(this.filePath(scheduleId));
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return false;
+        }
+        throw error;
+      }
+    });
+  }
+
+  private filePath(scheduleId: string): string {
+    if (!isValidScheduleId(scheduleId)) {
+      throw new Error(`Invalid schedule ID: ${scheduleId}`);
+    }
+    return path.join(this.dir, `${scheduleId}.json`);
+  }
+
+  private async read(scheduleId: string): Promise<ScheduleRecord | null> {
+    if (!isValidScheduleId(scheduleId)) {
+      return null;
+    }
+    try {
+      const raw = await fs.readFile(this.filePath(scheduleId), 'utf8');
+      return JSON.parse(raw) as ScheduleRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async write(record: ScheduleRecord): Promise<void> {
+    const target = this.filePath(record.schedule_id);
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(tmp, JSON.stringify(record, null, 2), 'utf8');
+    await fs.rename(tmp, target);
+  }
+
+  // Serialize read-modify-write cycles per schedule within this process
+  private async withLock<T>(scheduleId: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(scheduleId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(fn);
+    this.locks.set(scheduleId, next);
+    try {
+      return await next;
+    } finally {
+      if (this.locks.get(scheduleId) === next) {
+        this.locks.delete(scheduleId);
+      }
+    }
+  }
+}
+
+// Keep a single instance across Next.js hot reloads
+const globalForSchedules = globalThis as unknown as { scheduleRepository?: ScheduleRepository };
+
+// Follows RUN_STORE, so schedules live wherever their runs do
+export function getScheduleRepository(): ScheduleRepository {
+  if (!globalForSchedules.scheduleRepository) {
+    globalForSchedules.scheduleRepository = process.env.RUN_STORE === 'memory'
+      ? new MemoryScheduleRepository()
+      : new FileScheduleRepository(process.env.SCHEDULE_STORE_DIR || path.join(process.cwd(), '.data', 'schedules'));
+  }
+  return globalForSchedules.scheduleRepository;
+}
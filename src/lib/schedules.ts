@@ -0,0 +1,184 @@
+import { randomUUID } from 'crypto';
+import type { AnalysisResult } from '@/lib/agent';
+import { compareRuns, MetricChange } from '@/lib/compare';
+import { nextCronTime } from '@/lib/cron';
+import { launchRun, RunSettings } from '@/lib/run-launcher';
+import { getRunRepository } from '@/lib/run-repository';
+import { getScheduleRepository, ScheduleRecord } from '@/lib/schedule-repository';
+import { deliverWebhook, getWebhookSecret } from '@/lib/webhooks';
+
+export const DEFAULT_SCORE_DROP_THRESHOLD = 10;
+
+// How often the scheduler looks for schedules that are due
+const SCHEDULER_TICK_MS = 30_000;
+
+// Where alerts go for schedules without a webhook_url of their own
+export function getAlertWebhookUrl(): string | null {
+  return process.env.ALERT_WEBHOOK_URL || null;
+}
+
+export interface Regression {
+  // Negative: the score went down
+  score_delta: number;
+  lost_metrics: MetricChange[];
+}
+
+// A regression is a score drop of at least `threshold` points, or a funnel
+// milestone (add to cart, checkout reached, form filled) the baseline
+// reached and the current run did not. Returns null when neither happened.
+export function detectRegression(baseline: AnalysisResult, current: AnalysisResult, threshold: number): Regression | null {
+  const comparison = compareRuns(baseline, current);
+  const lostMetrics = comparison.flipped_metrics.filter(change => change.before && !change.after);
+
+  if (-comparison.score_delta < threshold && lostMetrics.length === 0) {
+    return null;
+  }
+  return { score_delta: comparison.score_delta, lost_metrics: lostMetrics };
+}
+
+// Body POSTed to the alert webhook
+export interface ScheduleAlertPayload {
+  event: 'schedule.alert';
+  schedule_id: string;
+  store_url: string;
+  run_id: string;
+  baseline_run_id: string;
+  score: { before: number; after: number; delta: number };
+  lost_metrics: MetricChange[];
+  drop_off_step: string | null;
+  at: string;
+}
+
+// Signed and retried like run result callbacks; returns whether the webhook
+// accepted the alert. Without WEBHOOK_SECRET alerts are not sent.
+async function sendAlert(url: string, payload: ScheduleAlertPayload): Promise<boolean> {
+  if (!getWebhookSecret()) {
+    console.error(`Alert for schedule ${payload.schedule_id} not sent: WEBHOOK_SECRET is not set`);
+    return false;
+  }
+  const { delivered } = await deliverWebhook(url, payload.event, payload);
+  return delivered;
+}
+
+// Starts the runs of due schedules in this process and alerts when a run
+// regressed against the schedule's previous completed run.
+export class Scheduler {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  // Schedules whose latest run has not finished yet
+  private running = new Set<string>();
+
+  start(): void {
+    if (this.timer) return;
+    const tick = () => this.tick().catch(error => console.error('Scheduler tick failed:', error));
+    this.timer = setInterval(tick, SCHEDULER_TICK_MS);
+    this.timer.unref?.();
+    tick();
+  }
+
+  async tick(now = new Date()): Promise<void> {
+    const schedules = getScheduleRepository();
+
+    for (const schedule of await schedules.list()) {
+      if (Date.parse(schedule.next_run_at) > now.getTime()) continue;
+
+      // A schedule that came due several times while the server was down
+      // runs once, not once per missed slot
+      await schedules.update(schedule.schedule_id, { next_run_at: nextCronTime(schedule.cron, now).toISOString() });
+
+      if (this.running.has(schedule.schedule_id)) {
+        console.log(`Schedule ${schedule.schedule_id} is due but its previous run has not finished, skipping`);
+        continue;
+      }
+      void this.fire(schedule);
+    }
+  }
+
+  private async fire(schedule: ScheduleRecord): Promise<void> {
+    const { schedule_id: scheduleId } = schedule;
+    this.running.add(scheduleId);
+
+    try {
+      const { runId, finished } = await launchRun(schedule.store_url, { ...schedule.options, schedule_id: scheduleId });
+      console.log(`Schedule ${scheduleId} started run_id: ${runId}`);
+      await getScheduleRepository().update(scheduleId, { last_run_id: runId, last_run_at: new Date().toISOString() });
+      await finished;
+      await this.checkRun(scheduleId, runId);
+    } catch (error) {
+      console.error(`Schedule ${scheduleId} run failed:`, error);
+    } finally {
+      this.running.delete(scheduleId);
+    }
+  }
+
+  private async checkRun(scheduleId: string, runId: string): Promise<void> {
+    const schedules = getScheduleRepository();
+    const runs = getRunRepository();
+
+    const schedule = await schedules.get(scheduleId);
+    const current = await runs.get(runId);
+    // Deleted while the run was going, or the run was cancelled by hand
+    if (!schedule || !current?.result || current.status === 'cancelled') return;
+
+    const { runs: completed } = await runs.list({ schedule_id: scheduleId, status: 'completed' });
+    const baseline = completed.find(record => record.run_id !== runId && record.created_at < current.created_at);
+    if (!baseline?.result) return;
+
+    const regression = detectRegression(baseline.result, current.result, schedule.score_drop_threshold);
+    if (!regression) return;
+
+    const at = new Date().toISOString();
+    const url = schedule.webhook_url ?? getAlertWebhookUrl();
+    const delivered = url
+      ? await sendAlert(url, {
+        event: 'schedule.alert',
+        schedule_id: scheduleId,
+        store_url: schedule.store_url,
+        run_id: runId,
+        baseline_run_id: baseline.run_id,
+        score: { before: baseline.result.score, after: current.result.score, delta: regression.score_delta },
+        lost_metrics: regression.lost_metrics,
+        drop_off_step: current.result.metrics.drop_off_step,
+        at,
+      })
+      : false;
+
+    console.log(`Schedule ${scheduleId} regressed in run_id: ${runId} (alert ${delivered ? 'delivered' : 'not delivered'})`);
+    await schedules.update(scheduleId, {
+      last_alert: { at, run_id: runId, baseline_run_id: baseline.run_id, ...regression, delivered },
+    });
+  }
+}
+
+// Keep a single instance across Next.js hot reloads
+const globalForScheduler = globalThis as unknown as { scheduler?: Scheduler };
+
+export function getScheduler(): Scheduler {
+  if (!globalForScheduler.scheduler) {
+    globalForScheduler.scheduler = new Scheduler();
+  }
+  return globalForScheduler.scheduler;
+}
+
+export interface ScheduleInput {
+  store_url: string;
+  cron: string;
+  options: RunSettings;
+  webhook_url: string | null;
+  score_drop_threshold: number;
+}
+
+export async function createSchedule(input: ScheduleInput): Promise<ScheduleRecord> {
+  const now = new Date();
+  const schedule: ScheduleRecord = {
+    schedule_id: randomUUID(),
+    ...input,
+    created_at: now.toISOString(),
+    next_run_at: nextCronTime(input.cron, now).toISOString(),
+    last_run_id: null,
+    last_run_at: null,
+    last_alert: null,
+  };
+  await getScheduleRepository().create(schedule);
+  getScheduler().start();
+  return schedule;
+}
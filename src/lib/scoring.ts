@@ -0,0 +1,134 @@
+import { z } from 'zod';
+import type { Finding, RunMetrics } from '@/lib/agent';
+
+export type FunnelMilestone = 'add_to_cart_success' | 'checkout_reached' | 'checkout_form_filled';
+export type PenalizedCategory = Exclude<Finding['category'], 'positive'>;
+
+export interface ScoringWeights {
+  // Points for each funnel milestone the shopper reached
+  funnel: Record<FunnelMilestone, number>;
+  // UX points a run starts with; findings are deducted from these, down to 0
+  ux: number;
+  // Points each finding costs, by category
+  penalties: Record<PenalizedCategory, number>;
+  // Cost of specific finding ids, replacing their category's penalty
+  // (0 ignores a finding)
+  overrides: Record<string, number>;
+  // Most points all findings whose id starts with a prefix can cost together,
+  // so one kind of check cannot wipe out the UX points on its own
+  caps: Record<string, number>;
+}
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  funnel: {
+    add_to_cart_success: 20,
+    checkout_reached: 20,
+    checkout_form_filled: 20,
+  },
+  ux: 40,
+  penalties: {
+    critical: 15,
+    warning: 8,
+    suggestion: 5,
+  },
+  overrides: {},
+  caps: {
+    // axe reports every violated rule; a handful of critical ones is common
+    'a11y-': 15,
+    // One slow page tends to fail several metrics at once
+    'perf-': 10,
+  },
+};
+
+const FUNNEL_LABELS: Record<FunnelMilestone, string> = {
+  add_to_cart_success: 'Added to cart',
+  checkout_reached: 'Reached checkout',
+  checkout_form_filled: 'Filled checkout form',
+};
+
+export interface ScoreItem {
+  label: string;
+  // Earned funnel points are positive, finding deductions negative
+  points: number;
+  finding_id?: string;
+}
+
+export interface ScoreBreakdown {
+  total: number;
+  // One item per milestone; missed milestones earn 0
+  funnel: ScoreItem[];
+  ux_base: number;
+  deductions: ScoreItem[];
+  // ux_base plus deductions, floored at 0
+  ux: number;
+}
+
+export function scoreRun(metrics: RunMetrics, findings: Finding[], weights: ScoringWeights = getScoringWeights()): ScoreBreakdown {
+  const funnel = (Object.keys(FUNNEL_LABELS) as FunnelMilestone[]).map(milestone => ({
+    label: FUNNEL_LABELS[milestone],
+    points: metrics[milestone] ? weights.funnel[milestone] : 0,
+  }));
+
+  // Points still left under each cap, used up in finding order
+  const capLeft = { ...weights.caps };
+  const deductions: ScoreItem[] = findings
+    .filter((finding): finding is Finding & { category: PenalizedCategory } => finding.category !== 'positive')
+    .map(finding => {
+      let cost = weights.overrides[finding.id] ?? weights.penalties[finding.category];
+      const cap = Object.keys(capLeft).find(prefix => finding.id.startsWith(prefix));
+      if (cap !== undefined) {
+        cost = Math.min(cost, capLeft[cap]);
+        capLeft[cap] -= cost;
+      }
+      return { label: finding.title, points: -cost, finding_id: finding.id };
+    })
+    .filter(item => item.points !== 0);
+
+  const ux = Math.max(0, weights.ux + sum(deductions));
+  const total = Math.max(0, Math.min(100, sum(funnel) + ux));
+
+  return { total, funnel, ux_base: weights.ux, deductions, ux };
+}
+
+function sum(items: ScoreItem[]): number {
+  return items.reduce((total, item) => total + item.points, 0);
+}
+
+const scoringWeightsSchema = z.object({
+  funnel: z.object({
+    add_to_cart_success: z.number(),
+    checkout_reached: z.number(),
+    checkout_form_filled: z.number(),
+  }).partial(),
+  ux: z.number(),
+  penalties: z.object({
+    critical: z.number(),
+    warning: z.number(),
+    suggestion: z.number(),
+  }).partial(),
+  overrides: z.record(z.string(), z.number()),
+  caps: z.record(z.string(), z.number()),
+}).partial();
+
+// Defaults, with anything set in SCORING_WEIGHTS (JSON, any subset of
+// ScoringWeights) layered on top
+export function getScoringWeights(): ScoringWeights {
+  const configured = process.env.SCORING_WEIGHTS;
+  if (!configured) {
+    return DEFAULT_SCORING_WEIGHTS;
+  }
+
+  try {
+    const custom = scoringWeightsSchema.parse(JSON.parse(configured));
+    return {
+      funnel: { ...DEFAULT_SCORING_WEIGHTS.funnel, ...custom.funnel },
+      ux: custom.ux ?? DEFAULT_SCORING_WEIGHTS.ux,
+      penalties: { ...DEFAULT_SCORING_WEIGHTS.penalties, ...custom.penalties },
+      overrides: { ...DEFAULT_SCORING_WEIGHTS.overrides, ...custom.overrides },
+      caps: { ...DEFAULT_SCORING_WEIGHTS.caps, ...custom.caps },
+    };
+  } catch (error) {
+    console.error('Ignoring invalid SCORING_WEIGHTS:', error);
+    return DEFAULT_SCORING_WEIGHTS;
+  }
+}
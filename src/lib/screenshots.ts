@@ -0,0 +1,70 @@
+import type { Page } from 'playwright';
+import type { Finding, TimelineEvent } from '@/lib/agent';
+import { ArtifactStore, artifactUrl } from '@/lib/artifact-store';
+
+const SCREENSHOT_QUALITY = 60;
+
+// Screenshots the page for every timeline event and links findings to the
+// screenshot that shows what they are about.
+//
+// Steps record a timeline event right after examining a page, so findings
+// added since the previous event are linked to the new event's screenshot.
+// Captures run in the background; events and findings only get a screenshot
+// URL once the image has been stored.
+export class ScreenshotRecorder {
+  private pending: Promise<void>[] = [];
+  private count = 0;
+  private linkedFindings = 0;
+  // Latest stored screenshot, by capture order
+  private latest: { index: number; url: string } | null = null;
+
+  constructor(
+    private readonly runId: string,
+    private readonly store: ArtifactStore,
+    private readonly page: Page,
+    private readonly findings: Finding[],
+    // Each try of a run gets its own directory, so a retry never rewrites
+    // the screenshots of an earlier one (they are served as immutable)
+    private readonly attempt = 1,
+  ) {}
+
+  capture(event: TimelineEvent): void {
+    const index = ++this.count;
+    const name = `attempt-${this.attempt}/step-${String(index).padStart(2, '0')}.jpg`;
+    const supported = this.findings.slice(this.linkedFindings);
+    this.linkedFindings = this.findings.length;
+
+    this.pending.push((async () => {
+      try {
+        const data = await this.page.screenshot({ type: 'jpeg', quality: SCREENSHOT_QUALITY });
+        await this.store.put(this.runId, name, data);
+      } catch (error) {
+        console.log(`Screenshot for "${event.action}" failed:`, error);
+        return;
+      }
+
+      const url = artifactUrl(this.runId, name);
+      event.screenshot = url;
+      for (const finding of supported) {
+        finding.screenshot ??= url;
+      }
+      if (!this.latest || this.latest.index < index) {
+        this.latest = { index, url };
+      }
+    })());
+  }
+
+  // Waits for pending captures, then links findings added after the last
+  // event to the last screenshot. Positive findings are left unlinked.
+  async flush(): Promise<void> {
+    await Promise.all(this.pending);
+    this.pending = [];
+
+    for (const finding of this.findings.slice(this.linkedFindings)) {
+      if (finding.category !== 'positive' && this.latest) {
+        finding.screenshot ??= this.latest.url;
+      }
+    }
+    this.linkedFindings = this.findings.length;
+  }
+}
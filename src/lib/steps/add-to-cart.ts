@@ -0,0 +1,301 @@
+import { z } from 'zod';
+import type { Finding } from '@/lib/agent';
+import { cartActionStart, waitedSeconds } from '@/lib/page-settle';
+import { labels } from '@/lib/personas';
+import type { FunnelStep } from '@/lib/pipeline';
+
+// Label of the waits after each add-to-cart click; time_to_add_to_cart_seconds
+// adds these up
+const ADD_TO_CART_WAIT = 'Add to cart';
+
+const errorCheckSchema = z.object({
+  errorMessage: z.string().describe('The error or warning text near the add to cart button; empty when there is none'),
+  requiresVariantSelection: z.boolean().describe('The message asks to select a size, color or other variant first'),
+});
+
+export const cartCheckSchema = z.object({
+  itemCount: z.number().nullable().describe('The number on the cart badge; null when there is no badge'),
+  successMessageVisible: z.boolean().describe('A message like "Added to cart" is visible'),
+});
+
+export type CartCheck = z.infer<typeof cartCheckSchema>;
+
+// A badge showing 0 means the add failed even if a message flashed up; with
+// no badge at all, the success message is the only signal
+export function cartHasItems(check: CartCheck): boolean {
+  if (check.itemCount !== null) {
+    return check.itemCount > 0;
+  }
+  return check.successMessageVisible;
+}
+
+export const cartExperienceSchema = z.object({
+  feedbackShown: z.boolean().describe('There was clear feedback (popup, animation, notification) when the item was added'),
+  freeShippingThresholdShown: z.boolean().describe('A message like "Add X more for free shipping" is shown'),
+  cartSummaryVisible: z.boolean(),
+  upsellShown: z.boolean().describe('Related, recommended or cross-sell products are suggested'),
+  checkoutPathClear: z.boolean().describe('There is a clear button or path to proceed to checkout'),
+});
+
+export type CartExperience = z.infer<typeof cartExperienceSchema>;
+
+export function cartExperienceFindings(analysis: CartExperience): Finding[] {
+  const findings: Finding[] = [];
+
+  if (!analysis.feedbackShown) {
+    findings.push({
+      id: 'cart-no-feedback',
+      category: 'warning',
+      title: 'No Clear Add-to-Cart Feedback',
+      description: 'Users may not realize the item was added to cart',
+      evidence: 'No clear visual feedback detected after adding to cart',
+      recommendation: 'Add a clear confirmation popup, animation, or notification when items are added to cart',
+    });
+  }
+
+  if (!analysis.freeShippingThresholdShown) {
+    findings.push({
+      id: 'cart-no-shipping-threshold',
+      category: 'suggestion',
+      title: 'No Free Shipping Threshold Message',
+      description: 'Missing opportunity to encourage larger orders with free shipping incentive',
+      evidence: 'No "Add X more for free shipping" message detected',
+      recommendation: 'Display how much more the customer needs to spend for free shipping',
+    });
+  }
+
+  if (!analysis.upsellShown) {
+    findings.push({
+      id: 'cart-no-upsell',
+      category: 'suggestion',
+      title: 'No Upsell After Add to Cart',
+      description: 'Missing opportunity to increase order value with product suggestions',
+      evidence: 'No product recommendations shown after adding to cart',
+      recommendation: 'Show "Frequently bought together" or related products after add to cart',
+    });
+  }
+
+  if (!analysis.checkoutPathClear) {
+    findings.push({
+      id: 'cart-checkout-unclear',
+      category: 'warning',
+      title: 'Checkout Button Not Prominent',
+      description: 'Users may have difficulty finding how to proceed to checkout',
+      evidence: 'Checkout button or path not prominently displayed',
+      recommendation: 'Make the checkout button more visible with contrasting colors',
+    });
+  }
+
+  return findings;
+}
+
+export const addToCartFailureSchema = z.object({
+  reason: z.enum(['variant_required', 'out_of_stock', 'login_required', 'other'])
+    .describe('Why the item was not added'),
+  message: z.string().describe('The error or warning text shown, if any'),
+});
+
+export type AddToCartFailure = z.infer<typeof addToCartFailureSchema>;
+
+export function addToCartFailureFinding(failure: AddToCartFailure, cartCheck: CartCheck): Finding {
+  const evidence = `Error: ${failure.message.substring(0, 200)}`;
+
+  switch (failure.reason) {
+    case 'variant_required':
+      return {
+        id: 'add-to-cart-size-required',
+        category: 'warning',
+        title: 'Size Selection UX Issue',
+        description: 'Product requires size selection but the options may not be obvious or easy to select',
+        evidence,
+        recommendation: 'Make size/variant options more prominent and clearly indicate when selection is required before adding to cart',
+      };
+    case 'out_of_stock':
+      return {
+        id: 'add-to-cart-out-of-stock',
+        category: 'warning',
+        title: 'Product Out of Stock',
+        description: 'The selected product appears to be out of stock',
+        evidence,
+        recommendation: 'Show stock availability clearly and suggest similar in-stock products',
+      };
+    case 'login_required':
+      return {
+        id: 'add-to-cart-login-required',
+        category: 'critical',
+        title: 'Login Required to Add to Cart',
+        description: 'Users must be logged in to add items to cart',
+        evidence,
+        recommendation: 'Allow guest users to add items to cart without logging in',
+      };
+    default:
+      return {
+        id: 'add-to-cart-failed',
+        category: 'critical',
+        title: 'Add to Cart Failed',
+        description: 'Clicked add to cart but the cart remained empty',
+        evidence: `Cart check: ${JSON.stringify(cartCheck)}, ${evidence}`,
+        recommendation: 'Verify the add to cart button is functional and provides clear feedback',
+      };
+  }
+}
+
+// Selects a variant if needed, adds the product to the cart and reviews the
+// add-to-cart feedback.
+export const addToCartStep: FunnelStep = {
+  name: 'add_to_cart',
+
+  async run(context) {
+    const { stagehand, page, persona, findings, recordEvent } = context;
+
+    recordEvent({
+      timestamp: new Date().toISOString(),
+      action: 'Looking for Add to Cart button',
+      url: context.currentUrl,
+      success: true,
+    });
+
+    // First attempt: Try to select variants and add to cart
+    console.log('Attempting to add product to cart...');
+    let addStart = await cartActionStart(page);
+    await stagehand.act(`On this product page, do the following in order:
+      1. If there are size, color, or variant options (dropdown or buttons), select the first available option
+      2. If there is a quantity field, leave it at 1 or the default
+      3. Find and click the ${labels(persona, 'addToCart')} button
+
+      Make sure to click the actual add to cart button, not a wishlist or compare button.`);
+
+    // Wait for cart update or error message
+    await context.settle(ADD_TO_CART_WAIT, addStart);
+
+    // Check if there's an error message requiring size/variant selection
+    const errorCheck = await stagehand.extract(`Is there any error message or warning visible on the page? 
+      Look for messages like ${labels(persona, 'sizeRequired')},
+      or any red/orange warning text near the add to cart button.
+
+      Describe any error or warning messages you see.`, errorCheckSchema);
+
+    console.log('Error check after first add to cart attempt:', errorCheck);
+
+    if (errorCheck.requiresVariantSelection) {
+      console.log('Size/variant selection required, retrying...');
+
+      recordEvent({
+        timestamp: new Date().toISOString(),
+        action: 'Detected size/variant selection required',
+        url: page.url(),
+        success: true,
+      });
+
+      // Explicitly select size/variant options
+      await stagehand.act(`There is an error saying you need to select a size or variant. 
+        Look for size buttons (like S, M, L, XL, 36, 38, 40, etc.) or a size dropdown.
+        Click on the FIRST available size option that is not grayed out or crossed out.
+        If there are color options, select the first available color as well.
+        After selecting, wait a moment for the page to update.`);
+
+      await context.settle('Select variant');
+
+      // Try adding to cart again
+      console.log('Retrying add to cart after selecting size...');
+      addStart = await cartActionStart(page);
+      await stagehand.act(`Now click the ${labels(persona, 'addToCart')} button again.
+        The size should now be selected. Click the main add to cart button.`);
+
+      await context.settle(ADD_TO_CART_WAIT, addStart);
+
+      // Check for errors again
+      const secondErrorCheck = await stagehand.extract('Is there still an error message about size or variant selection? Or was the item added to cart successfully?', errorCheckSchema);
+
+      if (secondErrorCheck.requiresVariantSelection) {
+        // Still having issues, try one more time with a different approach
+        console.log('Still having size issues, trying dropdown approach...');
+
+        addStart = await cartActionStart(page);
+        await stagehand.act(`The size selection might be a dropdown menu. 
+          Look for any dropdown/select element near the product options.
+          Click on it and select the first available size option from the dropdown.
+          If sizes are shown as clickable buttons, make sure to click directly on a size button (not just hover).
+          Then click the Add to Cart button again.`);
+
+        await context.settle(ADD_TO_CART_WAIT, addStart);
+      }
+    }
+
+    context.currentUrl = page.url();
+
+    // Verify the product was actually added to cart
+    const cartCheck = await stagehand.extract(`Check the shopping cart icon or cart indicator. How many items are in the cart? Look for a number badge on the cart icon. Also check if there is a success message like ${labels(persona, 'addedToCart')}.`, cartCheckSchema);
+
+    console.log('Cart check result:', cartCheck);
+
+    if (cartHasItems(cartCheck)) {
+      context.metrics.time_to_add_to_cart_seconds = waitedSeconds(context.waits.filter(wait => wait.label === ADD_TO_CART_WAIT));
+      context.metrics.add_to_cart_success = true;
+
+      recordEvent({
+        timestamp: new Date().toISOString(),
+        action: 'Added product to cart',
+        url: context.currentUrl,
+        success: true,
+      });
+
+      // ============ CART/ADD-TO-CART UX ANALYSIS ============
+      console.log('Analyzing cart experience...');
+      try {
+        const cartExperienceAnalysis = await stagehand.extract(`Analyze the add-to-cart experience and current cart state:
+          1. Was there clear feedback when the item was added (popup, animation, notification)?
+          2. Is there a "Free shipping" threshold message (like "Add X more for free shipping")?
+          3. Can you easily see what's in the cart (cart summary visible)?
+          4. Is there a clear way to continue shopping?
+          5. Is there a clear path/button to proceed to checkout?
+          6. Are there any upsell or cross-sell suggestions shown after adding to cart?
+          7. Is the cart total clearly displayed?
+          8. Is there a mini-cart or cart sidebar visible?
+
+          Describe what you see after adding the item to cart.`, cartExperienceSchema);
+
+        console.log('Cart experience analysis:', cartExperienceAnalysis);
+        findings.push(...cartExperienceFindings(cartExperienceAnalysis));
+
+        recordEvent({
+          timestamp: new Date().toISOString(),
+          action: 'Analyzed cart experience',
+          url: context.currentUrl,
+          success: true,
+        });
+      } catch (cartAnalysisError) {
+        console.log('Cart experience analysis error:', cartAnalysisError);
+      }
+
+    } else {
+      // Cart is still empty, check why
+      console.log('Cart still empty, checking for errors...');
+
+      const finalErrorCheck = await stagehand.extract(`Why couldn't the item be added to cart? Look for:
+        - Error messages about size/variant selection
+        - Out of stock messages
+        - Login required messages
+        - Any other error or warning text
+        Describe what you see.`, addToCartFailureSchema);
+
+      console.log('Final error check:', finalErrorCheck);
+      findings.push(addToCartFailureFinding(finalErrorCheck, cartCheck));
+    }
+  },
+
+  isSuccessful(context) {
+    return context.metrics.add_to_cart_success;
+  },
+
+  onError(context, e) {
+    context.findings.push({
+      id: 'add-to-cart-failed',
+      category: 'critical',
+      title: 'Add to Cart Failed',
+      description: 'Could not add the product to cart',
+      evidence: `Error: ${e instanceof Error ? e.message : 'Unknown error'}`,
+      recommendation: 'Ensure the Add to Cart button is clearly visible and functional',
+    });
+  },
+};
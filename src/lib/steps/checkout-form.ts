@@ -0,0 +1,347 @@
+import { z } from 'zod';
+import { auditAccessibility } from '@/lib/accessibility';
+import type { Finding } from '@/lib/agent';
+import { OrderSubmissionBlockedError } from '@/lib/payment-guard';
+import { measurePerformance } from '@/lib/performance';
+import { labels } from '@/lib/personas';
+import type { FunnelStep, RunContext } from '@/lib/pipeline';
+
+const loginCheckSchema = z.object({
+  loginFormVisible: z.boolean(),
+  guestOptionVisible: z.boolean().describe('A "Continue as guest" or similar option is visible'),
+});
+
+const addressModalSchema = z.object({
+  addressModalOpen: z.boolean().describe('A modal or popup for address entry is open, with a save or confirm button'),
+});
+
+export const checkoutAnalysisSchema = z.object({
+  hasDiscountField: z.boolean().describe('A discount or coupon code field is visible'),
+  hasUpsell: z.boolean().describe('Upsell, cross-sell or related product suggestions are shown'),
+  paymentButtonClear: z.boolean(),
+  hasTrustBadges: z.boolean().describe('Trust badges, SSL or other security indicators are shown'),
+  shippingCostsClear: z.boolean().describe('Shipping costs are clearly displayed'),
+  loginRequired: z.boolean().describe('An account or login is required to check out, with no guest option'),
+  requiredFieldCount: z.number().nullable().describe('Number of required form fields; null when it cannot be told'),
+  errorMessagesVisible: z.boolean().describe('Validation or other error messages are visible on the form'),
+  hasProgressIndicator: z.boolean().describe('A progress bar or step indicator shows the checkout steps'),
+  hasFreeShippingMessage: z.boolean().describe('A message like "Add X more for free shipping" is shown'),
+});
+
+export type CheckoutAnalysis = z.infer<typeof checkoutAnalysisSchema>;
+
+// More required fields than this is flagged as too many
+const MAX_CHECKOUT_FIELDS = 8;
+
+export function checkoutFindings(analysis: CheckoutAnalysis): Finding[] {
+  const findings: Finding[] = [];
+
+  if (!analysis.hasDiscountField) {
+    findings.push({
+      id: 'no-discount-field',
+      category: 'suggestion',
+      title: 'No Discount Code Field Visible',
+      description: 'The checkout page does not prominently display a discount code field',
+      evidence: 'Discount/coupon field not found during checkout analysis',
+      recommendation: 'Add a visible discount code field to encourage conversions and allow marketing campaigns',
+    });
+  }
+
+  if (!analysis.hasUpsell) {
+    findings.push({
+      id: 'no-upsell',
+      category: 'suggestion',
+      title: 'No Upsell/Cross-sell at Checkout',
+      description: 'The checkout page does not show product recommendations',
+      evidence: 'No upsell or cross-sell suggestions found at checkout',
+      recommendation: 'Add "Frequently bought together" or "You might also like" sections to increase average order value',
+    });
+  }
+
+  if (!analysis.hasTrustBadges) {
+    findings.push({
+      id: 'no-trust-badges',
+      category: 'warning',
+      title: 'No Trust Badges Visible',
+      description: 'Security and trust indicators are not prominently displayed',
+      evidence: 'No trust badges or security indicators found on checkout page',
+      recommendation: 'Add SSL badges, payment provider logos, and security seals to increase buyer confidence',
+    });
+  }
+
+  if (!analysis.hasFreeShippingMessage) {
+    findings.push({
+      id: 'no-free-shipping-threshold',
+      category: 'suggestion',
+      title: 'No Free Shipping Incentive',
+      description: 'No "Add X more for free shipping" message found',
+      evidence: 'Free shipping threshold messaging not detected',
+      recommendation: 'Display "Add X more for free shipping" to encourage larger orders',
+    });
+  }
+
+  if (analysis.loginRequired) {
+    findings.push({
+      id: 'checkout-no-guest',
+      category: 'warning',
+      title: 'Guest Checkout Not Available',
+      description: 'Users are required to create an account or log in to checkout',
+      evidence: 'Login/account required before checkout completion',
+      recommendation: 'Offer guest checkout option to reduce friction and cart abandonment',
+    });
+  }
+
+  const fieldCount = analysis.requiredFieldCount;
+  if (fieldCount !== null && fieldCount > MAX_CHECKOUT_FIELDS) {
+    findings.push({
+      id: 'checkout-too-many-fields',
+      category: 'suggestion',
+      title: 'Too Many Form Fields',
+      description: `Checkout form has ${fieldCount} fields which may cause abandonment`,
+      evidence: `${fieldCount} form fields detected during checkout analysis`,
+      recommendation: 'Reduce form fields to essential information only (aim for 6-8 fields max)',
+    });
+  }
+
+  if (!analysis.hasProgressIndicator) {
+    findings.push({
+      id: 'checkout-no-progress',
+      category: 'suggestion',
+      title: 'No Progress Indicator',
+      description: 'Checkout does not show progress through the checkout steps',
+      evidence: 'No progress indicator or step tracker found',
+      recommendation: 'Add a progress bar or step indicator (e.g., "Step 2 of 3") to reduce anxiety',
+    });
+  }
+
+  if (!analysis.shippingCostsClear) {
+    findings.push({
+      id: 'checkout-unclear-shipping',
+      category: 'warning',
+      title: 'Shipping Costs Not Clear',
+      description: 'Shipping costs are not clearly displayed before checkout completion',
+      evidence: 'Shipping cost visibility issue detected',
+      recommendation: 'Display shipping costs clearly and early to prevent surprise costs at checkout',
+    });
+  }
+
+  if (analysis.errorMessagesVisible) {
+    findings.push({
+      id: 'checkout-has-errors',
+      category: 'critical',
+      title: 'Form Validation Errors Present',
+      description: 'Error messages are visible on the checkout form',
+      evidence: 'Validation errors detected during checkout process',
+      recommendation: 'Review form validation and ensure error messages are helpful and actionable',
+    });
+  }
+
+  return findings;
+}
+
+// Step 7: Analyze the checkout page for UX issues
+async function reviewCheckout(context: RunContext): Promise<void> {
+  const { stagehand, findings, recordEvent } = context;
+  const checkoutAnalysis = await stagehand.extract(`Analyze this checkout page and provide insights:
+    1. Is there a discount/coupon code field visible?
+    2. Are there any upsell or cross-sell suggestions?
+    3. Is the payment button clearly visible and labeled?
+    4. Are there trust badges or security indicators?
+    5. Are shipping costs clearly displayed?
+    6. Is there a guest checkout option or is login required?
+    7. How many form fields are required?
+    8. Are there any error messages visible?
+    9. Is there a progress indicator showing checkout steps?
+    10. Are there any recommendations for increasing average order value (like "Add X more for free shipping")?`, checkoutAnalysisSchema);
+
+  console.log('Checkout analysis:', checkoutAnalysis);
+  findings.push(...checkoutFindings(checkoutAnalysis));
+
+  recordEvent({
+    timestamp: new Date().toISOString(),
+    action: 'Analyzed checkout page for UX issues',
+    url: context.currentUrl,
+    success: true,
+  });
+}
+
+// Fills the checkout form with dummy data up to, but never including, the
+// payment submission, then reviews the checkout page. Form trouble is
+// reported as a finding rather than a drop-off.
+export const checkoutFormStep: FunnelStep = {
+  name: 'checkout_form',
+
+  async run(context) {
+    const { stagehand, page, persona, findings, recordEvent } = context;
+    const { address } = persona;
+
+    await measurePerformance(context, 'checkout');
+    await auditAccessibility(context, 'checkout');
+
+    recordEvent({
+      timestamp: new Date().toISOString(),
+      action: 'Filling checkout form',
+      url: context.currentUrl,
+      success: true,
+    });
+
+    try {
+      // ============ CHECKOUT FORM FILLING - STEP BY STEP ============
+      console.log('Starting checkout form filling...');
+
+      // Step 6a: Check if we need to handle login/guest checkout first
+      const loginCheck = await stagehand.extract(`Is there a login form or guest checkout option visible? Is there a ${labels(persona, 'guestCheckout')} button?`, loginCheckSchema);
+
+      if (loginCheck.loginFormVisible || loginCheck.guestOptionVisible) {
+        console.log('Handling guest checkout option...');
+        await stagehand.act(`If there is a guest checkout option (${labels(persona, 'guestCheckout')}), click it. If there is an email field for guest checkout, enter ${persona.email}`);
+        await context.settle('Continue as guest');
+      }
+
+      recordEvent({
+        timestamp: new Date().toISOString(),
+        action: 'Handling login/guest checkout',
+        url: page.url(),
+        success: true,
+      });
+
+      // Step 6b: Fill contact information (email, phone)
+      console.log('Filling contact information...');
+      await stagehand.act(`Fill in contact information fields if visible:
+        - Email: ${persona.email}
+        - Phone: ${persona.phone}
+        Look for fields labeled ${labels(persona, 'emailField')}, ${labels(persona, 'phoneField')}.`);
+
+      await context.settle('Fill contact information');
+
+      recordEvent({
+        timestamp: new Date().toISOString(),
+        action: 'Filled contact information',
+        url: page.url(),
+        success: true,
+      });
+
+      // Step 6c: Fill name fields
+      console.log('Filling name fields...');
+      await stagehand.act(`Fill in name fields if visible:
+        - First name: ${persona.firstName}
+        - Last name: ${persona.lastName}
+        - Full name: ${persona.firstName} ${persona.lastName}
+        Look for fields labeled "Name", ${labels(persona, 'firstNameField')}, ${labels(persona, 'lastNameField')}, ${labels(persona, 'fullNameField')}.`);
+
+      await context.settle('Fill name fields');
+
+      recordEvent({
+        timestamp: new Date().toISOString(),
+        action: 'Filled name fields',
+        url: page.url(),
+        success: true,
+      });
+
+      // Step 6d: Fill address fields
+      console.log('Filling address fields...');
+      await stagehand.act(`Fill in address fields if visible:
+        - Address (${labels(persona, 'addressField')}): ${address.street}
+        - City (${labels(persona, 'cityField')}): ${address.city}${address.region ? `
+        - ${address.region.label}: ${address.region.value}` : ''}${address.neighborhood ? `
+        - Neighborhood: ${address.neighborhood}` : ''}
+        - Postal code (${labels(persona, 'postalCodeField')}): ${address.postalCode}
+        - Country (${labels(persona, 'countryField')}): Select ${address.country} if there's a dropdown
+
+        If there's an ${labels(persona, 'addAddress')} button and no form is visible, click it first.`);
+
+      await context.settle('Fill address fields');
+
+      recordEvent({
+        timestamp: new Date().toISOString(),
+        action: 'Filled address fields',
+        url: page.url(),
+        success: true,
+      });
+
+      // Step 6e: Handle address modal if one appeared
+      const modalCheck = await stagehand.extract(`Is there a modal or popup open for address entry? Is there a ${labels(persona, 'save')} button visible in a modal?`, addressModalSchema);
+
+      if (modalCheck.addressModalOpen) {
+        console.log('Handling address modal...');
+        await stagehand.act(`Click the ${labels(persona, 'save')}, or similar button to save the address in the modal/popup.`);
+        await context.settle('Save address');
+
+        recordEvent({
+          timestamp: new Date().toISOString(),
+          action: 'Saved address from modal',
+          url: page.url(),
+          success: true,
+        });
+      }
+
+      // Step 6f: Select shipping method
+      console.log('Selecting shipping method...');
+      await stagehand.act(`If there are shipping method options visible (radio buttons or checkboxes for different shipping speeds/prices):
+        - Select the first available shipping option
+        - Or select standard/free shipping if available
+        Look for ${labels(persona, 'shipping')} options.`);
+
+      await context.settle('Select shipping method');
+
+      recordEvent({
+        timestamp: new Date().toISOString(),
+        action: 'Selected shipping method',
+        url: page.url(),
+        success: true,
+      });
+
+      // Step 6g: Proceed to payment step (but don't enter payment info). On
+      // a one-page checkout the button that goes on is the order button, so a
+      // blocked order here means the form was filled.
+      console.log('Proceeding to payment step...');
+      const orderBlocked = await stagehand.act(`Look for a ${labels(persona, 'continueToPayment')} button and click it.
+        This should take you to the payment step where you can see payment options.
+        DO NOT click any final ${labels(persona, 'placeOrder')} buttons.`).then(() => null, (error) => {
+        if (error instanceof OrderSubmissionBlockedError) return error;
+        throw error;
+      });
+
+      await context.settle('Continue to payment');
+      context.currentUrl = page.url();
+
+      recordEvent({
+        timestamp: new Date().toISOString(),
+        action: 'Filled checkout form with dummy data',
+        url: context.currentUrl,
+        success: true,
+      });
+      context.metrics.checkout_form_filled = true;
+      if (orderBlocked) {
+        throw orderBlocked;
+      }
+
+      await reviewCheckout(context);
+
+    } catch (formError) {
+      // The agent went for the order button; review the page it got to, then
+      // end the checkout here
+      if (formError instanceof OrderSubmissionBlockedError) {
+        await reviewCheckout(context).catch((error) => {
+          console.log('Could not analyze checkout page:', error);
+        });
+        throw formError;
+      }
+      console.log('Could not complete checkout form:', formError);
+      findings.push({
+        id: 'checkout-form-issues',
+        category: 'warning',
+        title: 'Checkout Form Difficulties',
+        description: 'The AI agent had difficulty filling out the checkout form',
+        evidence: `Error: ${formError instanceof Error ? formError.message : 'Unknown error'}`,
+        recommendation: 'Simplify checkout form, reduce required fields, and ensure clear labels',
+      });
+    }
+  },
+
+  isSuccessful() {
+    return true;
+  },
+
+  endsAtOrderButton: true,
+};
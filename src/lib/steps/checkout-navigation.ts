@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import { auditAccessibility } from '@/lib/accessibility';
+import { measurePerformance } from '@/lib/performance';
+import { labels } from '@/lib/personas';
+import type { FunnelStep } from '@/lib/pipeline';
+
+const cartPageSchema = z.object({
+  onCartPage: z.boolean().describe('This is the cart page or a cart sidebar/modal is open'),
+  checkoutButtonVisible: z.boolean(),
+});
+
+// Opens the cart and proceeds to the checkout page.
+export const checkoutNavigationStep: FunnelStep = {
+  name: 'checkout_navigation',
+
+  async run(context) {
+    const { stagehand, page, persona, recordEvent } = context;
+
+    recordEvent({
+      timestamp: new Date().toISOString(),
+      action: 'Navigating to cart/checkout',
+      url: context.currentUrl,
+      success: true,
+    });
+
+    // First, go to the cart or click checkout button
+    await stagehand.act(`Look for and click the cart icon, ${labels(persona, 'cart')}, ${labels(persona, 'checkout')}, or any button/link that takes you to view the cart or start checkout. If a cart sidebar/modal is already visible, click the checkout or payment button inside it.`);
+
+    await context.settle('Open cart');
+    context.currentUrl = page.url();
+
+    recordEvent({
+      timestamp: new Date().toISOString(),
+      action: 'Clicked cart/checkout button',
+      url: context.currentUrl,
+      success: true,
+    });
+
+    // Step 5: If on cart page, proceed to checkout
+    const cartPageInfo = await stagehand.extract(`What page are we on? Is there a checkout or payment button (${labels(persona, 'checkout')}) visible? Describe what actions are available.`, cartPageSchema);
+
+    if (cartPageInfo.onCartPage) {
+      await measurePerformance(context, 'cart');
+      await auditAccessibility(context, 'cart');
+
+      // We're on cart page, click proceed to checkout
+      await stagehand.act(`Click the ${labels(persona, 'checkout')}, or any button that proceeds to the checkout/payment page.`);
+
+      await context.settle('Open checkout');
+      context.currentUrl = page.url();
+
+      recordEvent({
+        timestamp: new Date().toISOString(),
+        action: 'Proceeded to checkout from cart',
+        url: context.currentUrl,
+        success: true,
+      });
+    }
+
+    context.metrics.checkout_reached = true;
+  },
+
+  isSuccessful(context) {
+    return context.metrics.checkout_reached;
+  },
+
+  onError(context, e) {
+    context.findings.push({
+      id: 'checkout-failed',
+      category: 'critical',
+      title: 'Could not reach checkout',
+      description: 'Failed to navigate to checkout after adding to cart',
+      evidence: `Error: ${e instanceof Error ? e.message : 'Unknown error'}`,
+      recommendation: 'Ensure checkout flow is accessible and intuitive',
+    });
+  },
+};
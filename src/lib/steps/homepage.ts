@@ -0,0 +1,109 @@
+import { z } from 'zod';
+import { auditAccessibility } from '@/lib/accessibility';
+import type { Finding } from '@/lib/agent';
+import { measurePerformance } from '@/lib/performance';
+import type { FunnelStep } from '@/lib/pipeline';
+
+export const homepageAnalysisSchema = z.object({
+  hasSearch: z.boolean().describe('A search bar or search icon is visible'),
+  searchLocation: z.string().describe('Where the search is, e.g. "header"; empty when there is none'),
+  navigationClear: z.boolean().describe('The navigation menu is clear and easy to understand'),
+  cluttered: z.boolean().describe('The page layout is cluttered or confusing'),
+  productsEasyToFind: z.boolean().describe('Products or a shop section are easy to find'),
+  hasClearCallToAction: z.boolean(),
+  logoVisible: z.boolean(),
+  hasIntrusivePopup: z.boolean().describe('A popup or overlay covers the page or is in the way'),
+});
+
+export type HomepageAnalysis = z.infer<typeof homepageAnalysisSchema>;
+
+export function homepageFindings(analysis: HomepageAnalysis): Finding[] {
+  const findings: Finding[] = [];
+
+  if (!analysis.hasSearch) {
+    findings.push({
+      id: 'homepage-no-search',
+      category: 'warning',
+      title: 'Search Not Prominently Visible',
+      description: 'The search functionality is not clearly visible on the homepage',
+      evidence: 'Search bar/icon not easily found during homepage analysis',
+      recommendation: 'Add a prominent search bar in the header to help users find products quickly',
+    });
+  }
+
+  if (!analysis.navigationClear || analysis.cluttered) {
+    findings.push({
+      id: 'homepage-navigation-unclear',
+      category: 'warning',
+      title: 'Navigation Could Be Clearer',
+      description: 'The navigation menu or page layout may be confusing to users',
+      evidence: 'Navigation described as unclear or cluttered during analysis',
+      recommendation: 'Simplify the navigation menu and ensure clear visual hierarchy',
+    });
+  }
+
+  if (!analysis.productsEasyToFind) {
+    findings.push({
+      id: 'homepage-products-hidden',
+      category: 'suggestion',
+      title: 'Products Not Immediately Visible',
+      description: 'Users may have difficulty finding products from the homepage',
+      evidence: 'Products or shop section not prominently displayed',
+      recommendation: 'Feature popular products on the homepage or make the shop section more prominent',
+    });
+  }
+
+  if (analysis.hasIntrusivePopup) {
+    findings.push({
+      id: 'homepage-intrusive-popups',
+      category: 'warning',
+      title: 'Intrusive Popups Detected',
+      description: 'Popups or overlays may be disrupting the user experience',
+      evidence: 'Intrusive popup/overlay detected on homepage',
+      recommendation: 'Delay popups or make them less intrusive to improve first impression',
+    });
+  }
+
+  return findings;
+}
+
+// Judges the first impression: search, navigation and intrusive popups.
+// Purely observational, so it never ends the funnel.
+export const homepageStep: FunnelStep = {
+  name: 'homepage',
+
+  async run(context) {
+    const { stagehand, findings, recordEvent } = context;
+
+    await measurePerformance(context, 'homepage');
+    await auditAccessibility(context, 'homepage');
+
+    console.log('Analyzing homepage UX...');
+    try {
+      const homepageAnalysis = await stagehand.extract(`Analyze this homepage/landing page:
+        1. Is there a clear search bar or search icon visible, and where?
+        2. Is the navigation menu clear and easy to understand?
+        3. Are products or a "Shop" section easy to find?
+        4. Is the page cluttered?
+        5. Are there clear call-to-action buttons?
+        6. Is the branding/logo visible?
+        7. Is a popup or overlay getting in the way of the page?`, homepageAnalysisSchema);
+
+      console.log('Homepage analysis:', homepageAnalysis);
+      findings.push(...homepageFindings(homepageAnalysis));
+
+      recordEvent({
+        timestamp: new Date().toISOString(),
+        action: 'Analyzed homepage UX',
+        url: context.currentUrl,
+        success: true,
+      });
+    } catch (homepageError) {
+      console.log('Homepage analysis error:', homepageError);
+    }
+  },
+
+  isSuccessful() {
+    return true;
+  },
+};
@@ -0,0 +1,17 @@
+import type { FunnelStep } from '@/lib/pipeline';
+import { addToCartStep } from './add-to-cart';
+import { checkoutFormStep } from './checkout-form';
+import { checkoutNavigationStep } from './checkout-navigation';
+import { homepageStep } from './homepage';
+import { productDiscoveryStep } from './product-discovery';
+
+export { addToCartStep, checkoutFormStep, checkoutNavigationStep, homepageStep, productDiscoveryStep };
+
+// The full purchase funnel, in the order a shopper goes through it
+export const DEFAULT_STEPS: FunnelStep[] = [
+  homepageStep,
+  productDiscoveryStep,
+  addToCartStep,
+  checkoutNavigationStep,
+  checkoutFormStep,
+];
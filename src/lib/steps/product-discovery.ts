@@ -0,0 +1,241 @@
+import { z } from 'zod';
+import { auditAccessibility } from '@/lib/accessibility';
+import type { Finding } from '@/lib/agent';
+import { checkMobileUsability, mobileFindings } from '@/lib/mobile-usability';
+import { measurePerformance } from '@/lib/performance';
+import { labels, vocabulary } from '@/lib/personas';
+import type { FunnelStep } from '@/lib/pipeline';
+
+const initialPageCheckSchema = z.object({
+  productsWithPricesVisible: z.boolean().describe('Products with prices are listed on this page and can be clicked directly'),
+});
+
+const productPageCheckSchema = z.object({
+  isProductPage: z.boolean().describe('This is a single product detail page with an add to cart button'),
+});
+
+export const productPageAnalysisSchema = z.object({
+  priceClear: z.boolean().describe('The price is clearly displayed and easy to read'),
+  imagesGood: z.boolean().describe('Product images are clear, high quality and zoomable'),
+  addToCartProminent: z.boolean().describe('The add to cart button is prominent and easy to find'),
+  stockShown: z.boolean().describe('Stock availability is shown'),
+  hasReviews: z.boolean().describe('Customer reviews or ratings are visible'),
+  hasVariants: z.boolean().describe('The product has size, color or other variant options'),
+  shippingInfoShown: z.boolean().describe('Shipping or delivery information is visible'),
+  hasTrustSignals: z.boolean().describe('Guarantees, return policy or other trust signals are visible'),
+});
+
+export type ProductPageAnalysis = z.infer<typeof productPageAnalysisSchema>;
+
+export function productPageFindings(analysis: ProductPageAnalysis): Finding[] {
+  const findings: Finding[] = [];
+
+  if (!analysis.priceClear) {
+    findings.push({
+      id: 'product-price-unclear',
+      category: 'critical',
+      title: 'Product Price Not Clear',
+      description: 'The product price is not prominently displayed',
+      evidence: 'Price visibility issue detected on product page',
+      recommendation: 'Display the price in a larger font near the product title and add-to-cart button',
+    });
+  }
+
+  if (!analysis.imagesGood) {
+    findings.push({
+      id: 'product-images-poor',
+      category: 'warning',
+      title: 'Product Images Could Be Better',
+      description: 'Product images may not be high quality or zoomable',
+      evidence: 'Image quality or zoom functionality issues detected',
+      recommendation: 'Use high-resolution product images with zoom functionality',
+    });
+  }
+
+  if (!analysis.addToCartProminent) {
+    findings.push({
+      id: 'product-atc-not-prominent',
+      category: 'warning',
+      title: 'Add to Cart Button Not Prominent',
+      description: 'The add to cart button may not stand out enough',
+      evidence: 'Add to cart button prominence issue detected',
+      recommendation: 'Make the add to cart button larger with a contrasting color',
+    });
+  }
+
+  if (!analysis.hasReviews) {
+    findings.push({
+      id: 'product-no-reviews',
+      category: 'suggestion',
+      title: 'No Reviews/Ratings Visible',
+      description: 'Product reviews or ratings are not displayed',
+      evidence: 'No customer reviews or ratings found on product page',
+      recommendation: 'Display customer reviews and ratings to build trust and help purchase decisions',
+    });
+  }
+
+  if (!analysis.stockShown) {
+    findings.push({
+      id: 'product-no-stock-info',
+      category: 'suggestion',
+      title: 'Stock Availability Not Shown',
+      description: 'Product stock/availability information is not visible',
+      evidence: 'No stock availability indicator found on product page',
+      recommendation: 'Show stock availability to create urgency and prevent cart abandonment',
+    });
+  }
+
+  if (!analysis.shippingInfoShown) {
+    findings.push({
+      id: 'product-no-shipping-info',
+      category: 'suggestion',
+      title: 'No Shipping Info on Product Page',
+      description: 'Shipping/delivery information is not visible on the product page',
+      evidence: 'No shipping information found before add to cart',
+      recommendation: 'Display estimated delivery time and shipping cost on the product page',
+    });
+  }
+
+  return findings;
+}
+
+// Navigates from the landing page to a product detail page and reviews it.
+export const productDiscoveryStep: FunnelStep = {
+  name: 'product_discovery',
+
+  async run(context) {
+    const { stagehand, page, persona, findings, recordEvent } = context;
+
+    recordEvent({
+      timestamp: new Date().toISOString(),
+      action: 'Looking for products',
+      url: context.currentUrl,
+      success: true,
+    });
+
+    // Step 2a: First, try to find a product directly on the page or navigate to products section
+    const initialPageCheck = await stagehand.extract('Look at the page. Are there any products with PRICES visible that I can click on directly? Or is this a homepage where I need to navigate to a products/shop section first?', initialPageCheckSchema);
+    console.log('Initial page check:', initialPageCheck);
+
+    // If on homepage, navigate to products section first
+    if (!initialPageCheck.productsWithPricesVisible) {
+      console.log('On homepage, navigating to products section...');
+
+      // Handle dropdown menus - hover first, then click a category
+      await stagehand.act(`Navigate to the products/shop section:
+        1. First, hover over or click ${labels(persona, 'products')}, or similar navigation menu item
+        2. If a dropdown menu appears with product categories, click on the FIRST category link (like ${labels(persona, 'allProducts')}, or any product category)
+        3. If no dropdown appears, look for a direct link to products and click it
+
+        The goal is to reach a page that shows a list of purchasable products with prices.`);
+
+      await context.settle('Open products section');
+      context.currentUrl = page.url();
+      console.log('After navigation attempt, URL:', context.currentUrl);
+
+      // Check if URL changed - if not, the dropdown might still be open
+      if (context.currentUrl === context.storeUrl || context.currentUrl === context.storeUrl + '/') {
+        console.log('URL unchanged, trying to click a category from dropdown...');
+        await stagehand.act(`A dropdown menu should be open. Look for and click on any product category link inside the dropdown menu. 
+          Examples: ${labels(persona, 'allProducts')}, or any category that will show products with prices.
+          Click on a link that will navigate to a category page, not just highlight it.`);
+
+        await context.settle('Open product category');
+        context.currentUrl = page.url();
+        console.log('After clicking category, URL:', context.currentUrl);
+      }
+    }
+
+    // Step 2b: Now we should be on a category page, find and click a product
+    await stagehand.act(`Find and click on a specific PRODUCT (not a category):
+      - Look for product cards or product images with PRICES displayed (like ${persona.prices.map(price => `"${price}"`).join(', ')})
+      - Click on the product image or product name/title to go to the product detail page
+      - Avoid clicking on category links, filters, or navigation items
+
+      Click on ONE product to view its details.`);
+
+    await context.settle('Open product page');
+    context.currentUrl = page.url();
+    console.log('After clicking product, URL:', context.currentUrl);
+
+    // Check if we're on a product page
+    const pageCheck = await stagehand.extract(`Is this a product detail page where I can add an item to cart? Look for: a single product with title, price, and a ${labels(persona, 'addToCart')} button.`, productPageCheckSchema);
+    console.log('Product page check:', pageCheck);
+
+    if (!pageCheck.isProductPage) {
+      // Still not on a product page, try one more time
+      console.log('Still not on product page, trying again...');
+      await stagehand.act('Find and click on any product card that shows a price. Click on the product image or name to go to its detail page.');
+      await context.settle('Open product page');
+      context.currentUrl = page.url();
+    }
+
+    recordEvent({
+      timestamp: new Date().toISOString(),
+      action: 'Navigated to product page',
+      url: context.currentUrl,
+      success: true,
+    });
+
+    await measurePerformance(context, 'product');
+    await auditAccessibility(context, 'product');
+
+    // ============ PRODUCT PAGE UX ANALYSIS ============
+    console.log('Analyzing product page UX...');
+    try {
+      const productPageAnalysis = await stagehand.extract(`Analyze this product page:
+        1. Is the product price clearly displayed and easy to read?
+        2. Are the product images clear, high-quality, and zoomable?
+        3. Is the "Add to Cart" button prominent and easy to find?
+        4. Is stock availability shown (in stock, out of stock, limited)?
+        5. Are there customer reviews or ratings visible?
+        6. Are product variants (size, color) easy to select?
+        7. Is there shipping information visible?
+        8. Are there any trust signals (guarantees, return policy)?`, productPageAnalysisSchema);
+
+      console.log('Product page analysis:', productPageAnalysis);
+      findings.push(...productPageFindings(productPageAnalysis));
+
+      recordEvent({
+        timestamp: new Date().toISOString(),
+        action: 'Analyzed product page UX',
+        url: context.currentUrl,
+        success: true,
+      });
+    } catch (productAnalysisError) {
+      console.log('Product page analysis error:', productAnalysisError);
+    }
+
+    if (context.device.isMobile) {
+      try {
+        const usability = await checkMobileUsability(page, vocabulary(persona, 'addToCart'));
+        console.log('Mobile usability:', usability);
+        findings.push(...mobileFindings(usability));
+
+        recordEvent({
+          timestamp: new Date().toISOString(),
+          action: `Checked mobile usability on ${context.device.label}`,
+          url: context.currentUrl,
+          success: true,
+        });
+      } catch (mobileError) {
+        console.log('Mobile usability check error:', mobileError);
+      }
+    }
+  },
+
+  isSuccessful() {
+    return true;
+  },
+
+  onError(context, e) {
+    context.findings.push({
+      id: 'no-products',
+      category: 'critical',
+      title: 'Could not find products',
+      description: 'Unable to locate any clickable products on the page',
+      evidence: `Error: ${e instanceof Error ? e.message : 'Unknown error'}`,
+      recommendation: 'Ensure products are clearly visible and clickable on the homepage or add a shop/products link',
+    });
+  },
+};
@@ -0,0 +1,34 @@
+// The page performance metrics a run measures and where their "good" and
+// "poor" thresholds lie (Google's Core Web Vitals thresholds, Lighthouse's for
+// total blocking time and page weight). Shared by the findings and the run
+// page's charts. Safe to import from client components.
+
+export type VitalKey = 'ttfb_ms' | 'lcp_ms' | 'cls' | 'inp_ms' | 'tbt_ms' | 'transfer_bytes';
+
+export type VitalRating = 'good' | 'needs-improvement' | 'poor';
+
+export interface VitalDefinition {
+  key: VitalKey;
+  label: string;
+  // Up to this value is good
+  good: number;
+  // Above this value is poor; in between needs improvement
+  poor: number;
+  format: (value: number) => string;
+}
+
+const milliseconds = (value: number) => value >= 1000 ? `${(value / 1000).toFixed(1)}s` : `${Math.round(value)}ms`;
+const megabytes = (value: number) => `${(value / 1024 / 1024).toFixed(1)} MB`;
+
+export const VITALS: VitalDefinition[] = [
+  { key: 'ttfb_ms', label: 'Time to First Byte', good: 800, poor: 1800, format: milliseconds },
+  { key: 'lcp_ms', label: 'Largest Contentful Paint', good: 2500, poor: 4000, format: milliseconds },
+  { key: 'cls', label: 'Cumulative Layout Shift', good: 0.1, poor: 0.25, format: value => value.toFixed(2) },
+  { key: 'inp_ms', label: 'Interaction to Next Paint', good: 200, poor: 500, format: milliseconds },
+  { key: 'tbt_ms', label: 'Total Blocking Time', good: 200, poor: 600, format: milliseconds },
+  { key: 'transfer_bytes', label: 'Page Weight', good: 2 * 1024 * 1024, poor: 5 * 1024 * 1024, format: megabytes },
+];
+
+export function rateVital(vital: VitalDefinition, value: number): VitalRating {
+  return value <= vital.good ? 'good' : value <= vital.poor ? 'needs-improvement' : 'poor';
+}
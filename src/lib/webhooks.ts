@@ -0,0 +1,135 @@
+import { createHmac, randomUUID } from 'crypto';
+import { getRunRepository, RunRecord } from '@/lib/run-repository';
+
+const DEFAULT_WEBHOOK_MAX_ATTEMPTS = 5;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const RETRY_BASE_DELAY_MS = 5_000;
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
+
+// Receivers verify deliveries with this; webhooks are not sent without it
+export function getWebhookSecret(): string | null {
+  return process.env.WEBHOOK_SECRET || null;
+}
+
+// Tries per delivery, the first one included
+export function getWebhookMaxAttempts(): number {
+  const configured = Number(process.env.WEBHOOK_MAX_ATTEMPTS);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_WEBHOOK_MAX_ATTEMPTS;
+}
+
+// 5s before the second attempt, doubling after that, capped at 5 minutes
+export function webhookRetryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), RETRY_MAX_DELAY_MS);
+}
+
+// Hex HMAC-SHA256 of "<timestamp>.<body>", sent as
+// X-Shopai-Signature: sha256=<hex>. Covering the timestamp lets receivers
+// reject replayed deliveries.
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export interface WebhookAttempt {
+  delivery_id: string;
+  attempt: number;
+  at: string;
+  // Null when no response came back (network error or timeout)
+  status_code: number | null;
+  error: string | null;
+  duration_ms: number;
+}
+
+export interface WebhookDelivery {
+  delivered: boolean;
+  attempts: WebhookAttempt[];
+}
+
+async function postOnce(url: string, event: string, body: string, secret: string, deliveryId: string, attempt: number): Promise<WebhookAttempt> {
+  const started = Date.now();
+  const timestamp = String(Math.floor(started / 1000));
+  const record = { delivery_id: deliveryId, attempt, at: new Date(started).toISOString() };
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Shopai-Event': event,
+        'X-Shopai-Delivery': deliveryId,
+        'X-Shopai-Timestamp': timestamp,
+        'X-Shopai-Signature': `sha256=${signWebhook(secret, timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    return {
+      ...record,
+      status_code: response.status,
+      error: response.ok ? null : `HTTP ${response.status}`,
+      duration_ms: Date.now() - started,
+    };
+  } catch (error) {
+    return {
+      ...record,
+      status_code: null,
+      error: error instanceof Error ? error.message : String(error),
+      duration_ms: Date.now() - started,
+    };
+  }
+}
+
+// POSTs payload to url until it answers 2xx or the attempts run out, waiting
+// webhookRetryDelayMs between tries. 4xx answers other than 408 and 429 are
+// not retried: the receiver rejected the delivery itself. onAttempt sees
+// every try as it happens.
+export async function deliverWebhook(
+  url: string,
+  event: string,
+  payload: unknown,
+  onAttempt: (attempt: WebhookAttempt) => Promise<void> | void = () => {},
+): Promise<WebhookDelivery> {
+  const secret = getWebhookSecret();
+  if (!secret) {
+    throw new Error('WEBHOOK_SECRET is not set');
+  }
+
+  const body = JSON.stringify(payload);
+  const deliveryId = randomUUID();
+  const maxAttempts = getWebhookMaxAttempts();
+  const attempts: WebhookAttempt[] = [];
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const result = await postOnce(url, event, body, secret, deliveryId, attempt);
+    attempts.push(result);
+    await onAttempt(result);
+
+    if (result.error === null) {
+      return { delivered: true, attempts };
+    }
+    const status = result.status_code;
+    if (status !== null && status >= 400 && status < 500 && status !== 408 && status !== 429) {
+      break;
+    }
+    if (attempt < maxAttempts) {
+      await new Promise(resolve => setTimeout(resolve, webhookRetryDelayMs(attempt)));
+    }
+  }
+
+  console.error(`Webhook ${event} to ${url} was not delivered after ${attempts.length} attempt(s)`);
+  return { delivered: false, attempts };
+}
+
+// POSTs a finished run's result to its callback_url, recording each attempt
+// on the run. Completed and failed runs are delivered; cancelled ones are not.
+export async function deliverRunResult(record: RunRecord): Promise<void> {
+  const { run_id: runId, callback_url: url, result } = record;
+  if (!url || !result || (record.status !== 'completed' && record.status !== 'failed')) {
+    return;
+  }
+
+  const runs = getRunRepository();
+  const { delivered } = await deliverWebhook(url, `run.${record.status}`, result, (attempt) =>
+    runs.recordWebhookAttempt(runId, attempt)
+  );
+  console.log(`Result of run_id: ${runId} ${delivered ? 'delivered' : 'not delivered'} to ${url}`);
+}